@@ -0,0 +1,176 @@
+// Local stand-in for the TzKT REST API, for working on the dashboard without the network.
+//
+//   node mock/tzkt-server.mjs [--port 5174] [--data mock/data.json]
+//
+// then open the dashboard with ?config=http://localhost:5174/config.json (the served config
+// points the dashboard at this server). `npm test` starts it too (see vitest-setup.mjs).
+//
+// The data file maps request paths below /v1/ to responses. Arrays are queried the way TzKT
+// does it - field filters (eq, ne, gt, ge, lt, le, in, ni, null, anyof), sort, limit, offset,
+// offset.cr, lastId and select / select.values - so paging and incremental sync behave like
+// the real API. Objects are returned as-is. operations/transactions/{hash}[/{counter}] is
+// looked up in operations/transactions.
+
+import { createServer } from 'node:http';
+import { readFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+
+const { values: args } = parseArgs({
+  options: {
+    port: { type: 'string', default: '5174' },
+    data: { type: 'string', default: new URL('./data.json', import.meta.url).pathname }
+  }
+});
+
+const port = Number(args.port);
+const data = JSON.parse(readFileSync(args.data, 'utf8'));
+
+const DEFAULT_LIMIT = 100;
+
+// Query fields TzKT resolves to nested ones
+const FIELD_ALIASES = {
+  entrypoint: 'parameter.entrypoint'
+};
+
+// Read a dotted path; accounts compare by address (sender=tz1... matches sender.address)
+function read(record, path) {
+  const value = (FIELD_ALIASES[path] ?? path).split('.').reduce((current, key) => current?.[key], record);
+  return value && typeof value === 'object' && 'address' in value ? value.address : value;
+}
+
+// Compare numerically when both sides are numbers (TzKT returns big amounts as strings)
+function compare(left, right) {
+  const a = Number(left);
+  const b = Number(right);
+  if (left !== null && left !== undefined && left !== '' && !Number.isNaN(a) && !Number.isNaN(b)) return a - b;
+  return String(left).localeCompare(String(right));
+}
+
+function matches(value, mode, expected) {
+  switch (mode) {
+    case 'eq': return value !== undefined && value !== null && compare(value, expected) === 0;
+    case 'ne': return value === undefined || value === null || compare(value, expected) !== 0;
+    case 'gt': return value !== undefined && value !== null && compare(value, expected) > 0;
+    case 'ge': return value !== undefined && value !== null && compare(value, expected) >= 0;
+    case 'lt': return value !== undefined && value !== null && compare(value, expected) < 0;
+    case 'le': return value !== undefined && value !== null && compare(value, expected) <= 0;
+    case 'in': return expected.split(',').some(option => value !== undefined && value !== null && compare(value, option) === 0);
+    case 'ni': return !expected.split(',').some(option => value !== undefined && value !== null && compare(value, option) === 0);
+    case 'null': return (value === undefined || value === null) === (expected !== 'false');
+    default: throw new Error(`Unsupported filter mode "${mode}"`);
+  }
+}
+
+const MODES = new Set(['eq', 'ne', 'gt', 'ge', 'lt', 'le', 'in', 'ni', 'null']);
+const RESERVED = new Set(['limit', 'offset', 'offset.cr', 'lastId', 'sort', 'sort.asc', 'sort.desc', 'select', 'select.values', 'select.fields']);
+
+// Split "field.mode" into its parts; a missing mode means eq
+function parseFilter(key) {
+  const dot = key.lastIndexOf('.');
+  const mode = key.slice(dot + 1);
+  return dot !== -1 && MODES.has(mode) ? { field: key.slice(0, dot), mode } : { field: key, mode: 'eq' };
+}
+
+// Project records onto `select` fields ("path" or "path as name")
+function select(records, fields, asValues) {
+  const columns = fields.split(',').map(field => {
+    const [path, name] = field.trim().split(/\s+as\s+/);
+    return { path, name: name ?? path };
+  });
+  if (asValues) return records.map(record => columns.map(column => read(record, column.path) ?? null));
+  if (columns.length === 1) return records.map(record => read(record, columns[0].path) ?? null);
+  return records.map(record => Object.fromEntries(columns.map(column => [column.name, column.path.split('.').reduce((current, key) => current?.[key], record) ?? null])));
+}
+
+function query(records, params) {
+  let result = records.filter(record => {
+    for (const [key, expected] of params) {
+      if (RESERVED.has(key)) continue;
+      // anyof.a.b.mode=x: any of the fields matches
+      if (key.startsWith('anyof.')) {
+        const parts = key.split('.').slice(1);
+        const mode = MODES.has(parts[parts.length - 1]) ? parts.pop() : 'eq';
+        if (!parts.some(field => matches(read(record, field), mode, expected))) return false;
+        continue;
+      }
+      const { field, mode } = parseFilter(key);
+      if (!matches(read(record, field), mode, expected)) return false;
+    }
+    return true;
+  });
+
+  const sortAsc = params.get('sort.asc') ?? params.get('sort');
+  const sortDesc = params.get('sort.desc');
+  if (sortAsc) result = [...result].sort((a, b) => compare(read(a, sortAsc), read(b, sortAsc)));
+  if (sortDesc) result = [...result].sort((a, b) => compare(read(b, sortDesc), read(a, sortDesc)));
+
+  // Cursor after a value of the sort field
+  const cursor = params.get('offset.cr');
+  if (cursor !== null) {
+    const field = sortAsc ?? sortDesc ?? 'id';
+    result = result.filter(record => sortDesc ? compare(read(record, field), cursor) < 0 : compare(read(record, field), cursor) > 0);
+  }
+  const lastId = params.get('lastId');
+  if (lastId !== null) result = result.filter(record => record.id < Number(lastId));
+
+  const offset = Number(params.get('offset') ?? 0);
+  const limit = Number(params.get('limit') ?? DEFAULT_LIMIT);
+  result = result.slice(offset, offset + limit);
+
+  if (params.has('select.values')) return select(result, params.get('select.values'), true);
+  if (params.has('select')) return select(result, params.get('select'), false);
+  if (params.has('select.fields')) return select(result, params.get('select.fields'), false);
+  return result;
+}
+
+// Response for a path below /v1/, or undefined if the data file has nothing for it
+function respond(path, params) {
+  if (path in data) {
+    const entry = data[path];
+    return Array.isArray(entry) ? query(entry, params) : entry;
+  }
+
+  const transaction = path.match(/^operations\/transactions\/(\w+)(?:\/(\d+))?$/);
+  if (transaction) {
+    const [, hash, counter] = transaction;
+    return data['operations/transactions'].filter(op => op.hash === hash && (!counter || op.counter === Number(counter)));
+  }
+  return undefined;
+}
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*'
+  });
+  res.end(JSON.stringify(body));
+}
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url ?? '/', `http://localhost:${port}`);
+
+  if (url.pathname === '/config.json') {
+    send(res, 200, { ...data['config.json'], tzktApiBase: `http://localhost:${port}` });
+    return;
+  }
+  if (!url.pathname.startsWith('/v1/')) {
+    send(res, 404, { message: 'Not found' });
+    return;
+  }
+
+  try {
+    const body = respond(url.pathname.slice('/v1/'.length), url.searchParams);
+    if (body === undefined) {
+      send(res, 404, { message: `No mock data for ${url.pathname}` });
+    } else {
+      send(res, 200, body);
+    }
+  } catch (error) {
+    send(res, 400, { message: error.message });
+  }
+  console.log(`${res.statusCode} ${req.method} ${url.pathname}${url.search}`);
+});
+
+server.listen(port, () => {
+  console.log(`Mock TzKT API on http://localhost:${port}/v1/ - dashboard config at http://localhost:${port}/config.json`);
+});
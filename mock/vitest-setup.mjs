@@ -0,0 +1,22 @@
+// Vitest global setup: serve mock/data.json with the mock TzKT server while the tests run.
+// Tests read its base URL with inject('tzktApiBase').
+
+import { spawn } from 'node:child_process';
+
+const PORT = 5175;
+
+export default async function setup({ provide }) {
+  const server = spawn(process.execPath, [new URL('./tzkt-server.mjs', import.meta.url).pathname, '--port', String(PORT)], {
+    stdio: ['ignore', 'pipe', 'inherit']
+  });
+
+  // The server logs one line once it listens
+  await new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.once('exit', code => reject(new Error(`Mock TzKT server exited with code ${code}`)));
+    server.stdout.once('data', resolve);
+  });
+
+  provide('tzktApiBase', `http://localhost:${PORT}`);
+  return () => server.kill();
+}
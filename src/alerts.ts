@@ -0,0 +1,254 @@
+import type { StakingOperation } from './api';
+import { formatAmount, formatStxtz, mulRate, parseMutez, ratio, tezToMutez } from './amounts';
+import type { ClassifiedTransfer } from './dex';
+import { rateAt } from './rates';
+import type { RateHistory } from './rates';
+
+// Alert rules evaluated against the stXTZ operation stream.
+//
+// Rules are plain JSON (see DEFAULT_ALERT_RULES; override them with `alertRules` in
+// config.json). They run over the full history whenever it changes. Alert keys are stable,
+// so re-evaluating a day replaces its alert instead of adding a second one.
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+export const ALERT_SEVERITIES: AlertSeverity[] = ['info', 'warning', 'critical'];
+
+interface AlertRuleBase {
+  id: string;
+  severity?: AlertSeverity; // defaults to 'warning'
+}
+
+// A single request_withdrawal worth at least minAmount XTZ
+export interface LargeWithdrawalRule extends AlertRuleBase {
+  type: 'large-withdrawal';
+  minAmount: number;
+}
+
+// Withdrawal requests minus deposits of one UTC day above a share of TVL (0.05 = 5%)
+export interface DailyNetOutflowRule extends AlertRuleBase {
+  type: 'daily-net-outflow';
+  maxShareOfTvl: number;
+}
+
+// One of the largest holders moving at least minShareSold of their position out: a withdrawal
+// request, a DEX sale or a transfer to another wallet
+export interface HolderDumpRule extends AlertRuleBase {
+  type: 'holder-dump';
+  topHolders: number;
+  minShareSold: number;
+}
+
+export type AlertRule = LargeWithdrawalRule | DailyNetOutflowRule | HolderDumpRule;
+
+// Thresholds of each rule type; all of them are required and must be positive numbers
+type RuleThresholds<T extends AlertRule['type']> = Exclude<keyof Extract<AlertRule, { type: T }>, keyof AlertRuleBase | 'type'>[];
+
+export const ALERT_RULE_THRESHOLDS: { [T in AlertRule['type']]: RuleThresholds<T> } = {
+  'large-withdrawal': ['minAmount'],
+  'daily-net-outflow': ['maxShareOfTvl'],
+  'holder-dump': ['topHolders', 'minShareSold']
+};
+
+export const ALERT_RULE_TYPES = Object.keys(ALERT_RULE_THRESHOLDS) as AlertRule['type'][];
+
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  { id: 'large-withdrawal', type: 'large-withdrawal', minAmount: 100_000 },
+  { id: 'daily-outflow', type: 'daily-net-outflow', maxShareOfTvl: 0.05, severity: 'critical' },
+  { id: 'top-holder-exit', type: 'holder-dump', topHolders: 10, minShareSold: 0.5 }
+];
+
+export interface Alert {
+  key: string; // stable identity, e.g. rule id + operation or day
+  ruleId: string;
+  type: AlertRule['type'];
+  severity: AlertSeverity;
+  level: number;
+  timestamp: string;
+  message: string;
+  address?: string;
+  hash?: string;
+}
+
+// What the rules evaluate against: the full history, so each event is judged by the
+// balances and TVL as of its own level rather than today's
+export interface AlertContext {
+  stxtzOps: StakingOperation[];     // every stXTZ operation
+  transfers: ClassifiedTransfer[];  // every stXTZ transfer, oldest first; empty if not loaded
+  rates: RateHistory;               // redemption rate history, to value the supply as TVL
+}
+
+function formatXtz(mutez: bigint): string {
+  return `${formatAmount(mutez, { minDecimals: 0, maxDecimals: 0 })} XTZ`;
+}
+
+function formatShare(share: number): string {
+  return `${(share * 100).toFixed(1)}%`;
+}
+
+function largeWithdrawals(rule: LargeWithdrawalRule, context: AlertContext): Alert[] {
+  const minAmount = tezToMutez(rule.minAmount);
+  return context.stxtzOps
+    .filter(op => op.type === 'unstake' && op.amount >= minAmount)
+    .map(op => ({
+      key: `${rule.id}:${op.hash}:${op.counter}:${op.nonce ?? ''}`,
+      ruleId: rule.id,
+      type: rule.type,
+      severity: rule.severity ?? 'warning',
+      level: op.level,
+      timestamp: op.timestamp,
+      message: `Withdrawal request of ${op.exact ? '' : '~'}${formatXtz(op.amount)}`,
+      address: op.sender,
+      hash: op.hash
+    }));
+}
+
+// stXTZ supply after every level that minted or burned, oldest first
+function supplyHistory(transfers: ClassifiedTransfer[]): { level: number; supply: bigint }[] {
+  const history: { level: number; supply: bigint }[] = [];
+  let supply = 0n;
+  for (const transfer of transfers) {
+    if (transfer.from && transfer.to) continue;
+    supply += transfer.from ? -parseMutez(transfer.amount) : parseMutez(transfer.amount);
+    if (history.length > 0 && history[history.length - 1].level === transfer.level) {
+      history[history.length - 1].supply = supply;
+    } else {
+      history.push({ level: transfer.level, supply });
+    }
+  }
+  return history;
+}
+
+// Supply at the end of the last level before `level`
+function supplyBefore(history: { level: number; supply: bigint }[], level: number): bigint {
+  let low = 0;
+  let high = history.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (history[mid].level < level) low = mid + 1;
+    else high = mid;
+  }
+  return low > 0 ? history[low - 1].supply : 0n;
+}
+
+// A day's outflow is measured against the TVL at the start of that day
+function dailyNetOutflows(rule: DailyNetOutflowRule, context: AlertContext): Alert[] {
+  if (context.transfers.length === 0) return [];
+  const supply = supplyHistory(context.transfers);
+
+  const days = new Map<string, StakingOperation[]>();
+  for (const op of context.stxtzOps) {
+    const day = op.timestamp.split('T')[0];
+    const dayOps = days.get(day);
+    if (dayOps) dayOps.push(op);
+    else days.set(day, [op]);
+  }
+
+  const alerts: Alert[] = [];
+  for (const [day, dayOps] of days) {
+    const outflow = dayOps.reduce((sum, op) => {
+      if (op.type === 'unstake') return sum + op.amount;
+      if (op.type === 'stake') return sum - op.amount;
+      return sum;
+    }, 0n);
+    if (outflow <= 0n) continue;
+
+    const first = dayOps.reduce((earliest, op) => op.level < earliest.level ? op : earliest);
+    const tvl = mulRate(supplyBefore(supply, first.level), rateAt(context.rates, first.level).rate);
+    if (tvl <= 0n) continue;
+    const share = ratio(outflow, tvl)!;
+    if (share <= rule.maxShareOfTvl) continue;
+
+    const last = dayOps.reduce((latest, op) => op.level > latest.level ? op : latest);
+    alerts.push({
+      key: `${rule.id}:${day}`,
+      ruleId: rule.id,
+      type: rule.type,
+      severity: rule.severity ?? 'warning',
+      level: last.level,
+      timestamp: last.timestamp,
+      message: `Net outflow of ${formatXtz(outflow)} on ${day} (${formatShare(share)} of TVL)`
+    });
+  }
+  return alerts;
+}
+
+// How a holder moved stXTZ out, or null if the transfer is not an exit
+function exitKind(transfer: ClassifiedTransfer): string | null {
+  switch (transfer.kind) {
+    case 'burn':
+      return 'requested withdrawal of';
+    case 'swap':
+      // Swaps out of the pool are buys
+      return transfer.to?.address === transfer.pool ? 'sold' : null;
+    case 'peer':
+      return 'transferred out';
+    default:
+      return null;
+  }
+}
+
+// Balances are replayed from the transfers, so both the position and the holder's rank
+// are the ones right before the exit
+function holderDumps(rule: HolderDumpRule, context: AlertContext): Alert[] {
+  const balances = new Map<string, bigint>();
+  const alerts: Alert[] = [];
+
+  for (const transfer of context.transfers) {
+    const amount = parseMutez(transfer.amount);
+    const sender = transfer.from?.address;
+    const action = exitKind(transfer);
+
+    if (sender && action && amount > 0n) {
+      const before = balances.get(sender) ?? 0n;
+      const share = before > 0n ? ratio(amount, before)! : 0;
+      if (share >= rule.minShareSold) {
+        let larger = 0;
+        for (const balance of balances.values()) {
+          if (balance > before) larger++;
+          if (larger >= rule.topHolders) break;
+        }
+        if (larger < rule.topHolders) {
+          alerts.push({
+            key: `${rule.id}:${transfer.id}`,
+            ruleId: rule.id,
+            type: rule.type,
+            severity: rule.severity ?? 'warning',
+            level: transfer.level,
+            timestamp: transfer.timestamp,
+            message: `Top-${rule.topHolders} holder ${action} ${formatShare(Math.min(share, 1))} of their stXTZ (${formatStxtz(amount)})`,
+            address: sender
+          });
+        }
+      }
+    }
+
+    if (transfer.from) balances.set(transfer.from.address, (balances.get(transfer.from.address) ?? 0n) - amount);
+    if (transfer.to) balances.set(transfer.to.address, (balances.get(transfer.to.address) ?? 0n) + amount);
+  }
+  return alerts;
+}
+
+// Evaluate every rule over the full history. Keys are stable, so merging the result into
+// the feed replaces earlier alerts for the same event.
+export function evaluateAlerts(rules: AlertRule[], context: AlertContext): Alert[] {
+  return rules
+    .flatMap(rule => {
+      switch (rule.type) {
+        case 'large-withdrawal':
+          return largeWithdrawals(rule, context);
+        case 'daily-net-outflow':
+          return dailyNetOutflows(rule, context);
+        case 'holder-dump':
+          return holderDumps(rule, context);
+      }
+    })
+    .sort((a, b) => b.level - a.level);
+}
+
+// Merge new alerts into a feed keyed by alert key; returns the alerts that were not there before
+export function mergeAlerts(feed: Map<string, Alert>, alerts: Alert[]): Alert[] {
+  const added = alerts.filter(alert => !feed.has(alert.key));
+  for (const alert of alerts) feed.set(alert.key, alert);
+  return added;
+}
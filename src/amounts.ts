@@ -0,0 +1,119 @@
+// Exact XTZ and stXTZ amounts.
+//
+// Amounts are bigint mutez (1 XTZ = 1,000,000 mutez; stXTZ has the same 6 decimals), so sums
+// never drift and large token balances keep every digit. Rates, ratios and shares stay floats.
+// Amounts only become floats at the chart boundary (toTez) - everything shown as text goes
+// through the formatters here.
+
+export const DECIMALS = 6;
+export const MUTEZ_PER_TEZ = 1_000_000n;
+
+// Fixed-point scale used when multiplying amounts by a float rate
+const RATE_SCALE = 1_000_000_000_000n;
+
+// Raw integer amount from TzKT (numbers for XTZ, strings for tokens); anything else is 0
+export function parseMutez(value: string | number | bigint | null | undefined): bigint {
+  if (typeof value === 'bigint') return value;
+  if (typeof value === 'number') return Number.isFinite(value) ? BigInt(Math.round(value)) : 0n;
+  if (typeof value === 'string' && /^-?\d+$/.test(value.trim())) return BigInt(value.trim());
+  return 0n;
+}
+
+// Whole or fractional XTZ (e.g. a configured threshold) as mutez
+export function tezToMutez(tez: number): bigint {
+  return BigInt(Math.round(tez * 1_000_000));
+}
+
+// Float XTZ for charts and ratios
+export function toTez(mutez: bigint): number {
+  return Number(mutez / MUTEZ_PER_TEZ) + Number(mutez % MUTEZ_PER_TEZ) / 1_000_000;
+}
+
+// Value an amount at a float rate (e.g. stXTZ -> XTZ), rounded to the nearest mutez
+export function mulRate(mutez: bigint, rate: number): bigint {
+  const scaled = BigInt(Math.round(rate * Number(RATE_SCALE)));
+  const product = mutez * scaled;
+  const half = RATE_SCALE / 2n;
+  return (product + (product >= 0n ? half : -half)) / RATE_SCALE;
+}
+
+// a / b as a float, or null when b is zero
+export function ratio(a: bigint, b: bigint): number | null {
+  if (b === 0n) return null;
+  const quotient = a / b;
+  return Number(quotient) + Number(a - quotient * b) / Number(b);
+}
+
+export function sumMutez(values: Iterable<bigint>): bigint {
+  let total = 0n;
+  for (const value of values) total += value;
+  return total;
+}
+
+export function absMutez(value: bigint): bigint {
+  return value < 0n ? -value : value;
+}
+
+export function minMutez(a: bigint, b: bigint): bigint {
+  return a < b ? a : b;
+}
+
+export function maxMutez(a: bigint, b: bigint): bigint {
+  return a > b ? a : b;
+}
+
+// Compare function for sorting amounts
+export function compareMutez(a: bigint, b: bigint): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+// Round to `fractionDigits` decimals (half away from zero) and split into whole/fraction digits
+function roundedParts(mutez: bigint, fractionDigits: number): { negative: boolean; whole: string; fraction: string } {
+  const negative = mutez < 0n;
+  const unit = 10n ** BigInt(DECIMALS - fractionDigits);
+  let magnitude = absMutez(mutez);
+  magnitude = (magnitude + unit / 2n) / unit;
+  const scale = 10n ** BigInt(fractionDigits);
+  return {
+    negative: negative && magnitude > 0n,
+    whole: (magnitude / scale).toString(),
+    fraction: fractionDigits > 0 ? (magnitude % scale).toString().padStart(fractionDigits, '0') : ''
+  };
+}
+
+// Plain decimal string with every digit, e.g. "-1234.500000" (exports, JSON)
+export function mutezToDecimal(mutez: bigint): string {
+  const { negative, whole, fraction } = roundedParts(mutez, DECIMALS);
+  return `${negative ? '-' : ''}${whole}.${fraction}`;
+}
+
+export interface AmountFormat {
+  minDecimals?: number; // default 2
+  maxDecimals?: number; // default 2
+  signed?: boolean;     // prefix positive amounts with +
+}
+
+// Group thousands and round, e.g. 1234567890n -> "1,234.57"
+export function formatAmount(mutez: bigint, format: AmountFormat = {}): string {
+  const { minDecimals = 2, maxDecimals = 2, signed = false } = format;
+  const { negative, whole, fraction } = roundedParts(mutez, Math.min(maxDecimals, DECIMALS));
+  const grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+  const trimmed = fraction.slice(0, minDecimals) + fraction.slice(minDecimals).replace(/0+$/, '');
+  const sign = negative ? '-' : signed && mutez > 0n ? '+' : '';
+  return `${sign}${grouped}${trimmed ? `.${trimmed}` : ''}`;
+}
+
+// XTZ amount with two decimals and the tez symbol
+export function formatTez(mutez: bigint): string {
+  return `${formatAmount(mutez)} ꜩ`;
+}
+
+// Signed XTZ amount with an explicit + for gains (zero has no sign)
+export function formatSignedTez(mutez: bigint): string {
+  return `${formatAmount(mutez, { signed: true })} ꜩ`;
+}
+
+// stXTZ amount, e.g. "1,234.5 stXTZ"
+export function formatStxtz(mutez: bigint, maxDecimals = 2): string {
+  return `${formatAmount(mutez, { minDecimals: 0, maxDecimals })} stXTZ`;
+}
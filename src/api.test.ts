@@ -0,0 +1,141 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { calculateStats, calculateWalletStats, findXtzAmountEntries } from './api';
+import { mulRate, parseMutez } from './amounts';
+import type { FixtureFile } from './fixtures';
+import { rateAt } from './rates';
+import { loadTestData, replayTestData } from './testData';
+import type { TestData } from './testData';
+
+// Wallets of mock/data.json
+const WHALE = 'tz1ATbQgdM9mwZgikp4WzxrxktcSSSS7XhS4';
+const TRADER = 'tz1mLidkuVKnRyjP2WPBg8Y4ErK9pGSSxY6B';
+const RECEIVER = 'tz1D5EVB8Nf471dAb7Qg25xEgRAhHPfQX88w';
+const POOL = 'KT1YkbUrMWeWQLGsCmrG6dLaYyNoVKf58ZTB';
+
+let data: TestData;
+let fixtures: FixtureFile;
+
+beforeAll(async () => {
+  ({ data, fixtures } = await loadTestData());
+});
+
+describe('calculateStats', () => {
+  it('sums the bakery operations by type', () => {
+    expect(calculateStats(data.bakeryOps)).toEqual({
+      totalStaked: 272_200_000_000n,
+      totalUnstaked: 59_771_399_997n,
+      totalFinalized: 45_424_999_998n,
+      stakeCount: 9,
+      unstakeCount: 4,
+      finalizeCount: 2,
+      netStaked: 212_428_600_003n,
+      estimatedCount: 0
+    });
+  });
+
+  it('values stXTZ withdrawals exactly from the contract queue', () => {
+    const stats = calculateStats(data.stxtzOps);
+    // Every deposit is staked with the baker and every request unstaked for its XTZ value
+    expect(stats.totalStaked).toBe(272_200_000_000n);
+    expect(stats.totalUnstaked).toBe(59_771_399_997n);
+    expect(stats.totalFinalized).toBe(45_424_999_998n);
+    expect(stats.estimatedCount).toBe(0);
+  });
+
+  it('gives the same stats when replaying the recorded fixtures', async () => {
+    const replayed = await replayTestData(data.config, fixtures);
+    expect(calculateStats(replayed.bakeryOps)).toEqual(calculateStats(data.bakeryOps));
+    expect(calculateStats(replayed.stxtzOps)).toEqual(calculateStats(data.stxtzOps));
+  });
+
+  it('is all zeros without operations', () => {
+    const stats = calculateStats([]);
+    expect(stats.totalStaked).toBe(0n);
+    expect(stats.netStaked).toBe(0n);
+    expect(stats.stakeCount).toBe(0);
+  });
+});
+
+describe('calculateWalletStats', () => {
+  it('counts deposits, withdrawals and finalizations per wallet', () => {
+    const stats = calculateWalletStats(data.stxtzOps);
+    expect(stats).toHaveLength(6);
+
+    const whale = stats.find(wallet => wallet.address === WHALE)!;
+    expect(whale).toMatchObject({
+      totalDeposited: 150_000_000_000n,
+      totalWithdrawn: 40_359_999_999n,
+      totalFinalized: 40_359_999_999n,
+      netPosition: 109_640_000_001n,
+      depositCount: 1,
+      withdrawCount: 1,
+      finalizeCount: 1,
+      transferCount: 0,
+      firstSeen: '2025-01-05T23:58:00Z',
+      lastActive: '2025-01-23T11:58:00Z'
+    });
+  });
+
+  it('values transfers at the redemption rate of their level', () => {
+    const stats = calculateWalletStats(data.stxtzOps, data.transfers, data.rates);
+    const wallet = (address: string) => stats.find(entry => entry.address === address)!;
+
+    // 2,000 stXTZ sent from one wallet to the other at level 8100
+    const peerValue = mulRate(2_000_000_000n, rateAt(data.rates, 8100).rate);
+    expect(wallet(TRADER).transferredOut).toBe(peerValue);
+    expect(wallet(RECEIVER).transferredIn).toBe(peerValue);
+
+    // 20,000 stXTZ put into the pool at level 6000
+    expect(wallet(WHALE).liquidityAdded).toBe(mulRate(20_000_000_000n, rateAt(data.rates, 6000).rate));
+    expect(wallet(WHALE).transferCount).toBe(1);
+  });
+
+  it('keeps the pool out and sorts by net position', () => {
+    const stats = calculateWalletStats(data.stxtzOps, data.transfers, data.rates);
+    expect(stats.map(wallet => wallet.address)).not.toContain(POOL);
+    expect(stats[0].address).toBe(WHALE);
+    for (let i = 1; i < stats.length; i++) {
+      expect(stats[i - 1].netPosition >= stats[i].netPosition).toBe(true);
+    }
+  });
+
+  it('counts every swap as a transfer', () => {
+    const stats = calculateWalletStats(data.stxtzOps, data.transfers, data.rates);
+    const swaps = data.transfers.filter(transfer => transfer.kind === 'swap');
+    const swapped = stats.reduce((sum, wallet) => sum + wallet.swappedIn + wallet.swappedOut, 0n);
+    expect(swaps.length).toBeGreaterThan(0);
+    expect(swapped).toBe(swaps.reduce((sum, transfer) => sum + mulRate(parseMutez(transfer.amount), rateAt(data.rates, transfer.level).rate), 0n));
+  });
+});
+
+describe('findXtzAmountEntries', () => {
+  // Recorded contract storage history, newest first
+  const storageHistory = () => {
+    const key = Object.keys(fixtures.responses).find(path => path.startsWith(`contracts/${data.config.contract}/storage/history`));
+    return fixtures.responses[key!] as { level: number; value: unknown }[];
+  };
+
+  it('finds every queue item in a storage snapshot', () => {
+    const [latest] = storageHistory();
+    const entries = findXtzAmountEntries(latest.value);
+    expect(entries.map(entry => entry.block_level)).toEqual(['10000', '14000', '23000', '27800']);
+    expect(entries[0]).toEqual({
+      xtz_amount: '40359999999',
+      stxtz_amount: '40000000000',
+      price: '1008999999999',
+      block_level: '10000'
+    });
+  });
+
+  it('searches nested arrays and objects', () => {
+    expect(findXtzAmountEntries(storageHistory())).toHaveLength(10);
+  });
+
+  it('skips objects without both amounts', () => {
+    const entries = findXtzAmountEntries({
+      queue: [{ xtz_amount: '1' }, { stxtz_amount: '2' }, { inner: { xtz_amount: '3', stxtz_amount: '4' } }]
+    });
+    expect(entries).toEqual([{ xtz_amount: '3', stxtz_amount: '4', price: undefined, block_level: undefined }]);
+    expect(findXtzAmountEntries(null)).toEqual([]);
+  });
+});
@@ -1,20 +1,50 @@
+import { tzktUrl } from './config';
+import type { DashboardConfig } from './config';
+import { syncOperations, bakeryStream, stxtzStream, isPersistent, readCache, writeCache } from './store';
+import { fetchJson, isAbortError } from './http';
+import { buildRateHistory, rateAt, ratePointsFromOperations, ratePointsFromQueueItems, revalueWithdrawals } from './rates';
+import type { QueueItemAmounts, RateHistory, RatePoint } from './rates';
+import type { ClassifiedTransfer } from './dex';
+import { compareMutez, mulRate, parseMutez, sumMutez, toTez } from './amounts';
+
 // API endpoints - filter server-side to get all relevant operations
-const BAKERY_API_BASE = 'https://api.tzkt.io/v1/operations/staking?baker=tz3W7k9v3uniY1f2HQRKxymJybNvH3FgvZ5N&select=level,timestamp,action,amount&action.in=stake,unstake,finalize';
-const STXTZ_API_BASE = 'https://api.tzkt.io/v1/operations/transactions?status=applied&target=KT1FRN2RmitUkyyovtjRMrU1G9zwKzgESXm8&entrypoint.in=deposit,request_withdrawal,finalize_withdrawal';
+function bakeryApiBase(config: DashboardConfig, baker: string): string {
+  return tzktUrl(config, `operations/staking?baker=${baker}&select=id,level,hash,counter,timestamp,action,amount&action.in=stake,unstake,finalize`);
+}
+
+function stxtzApiBase(config: DashboardConfig): string {
+  return tzktUrl(config, `operations/transactions?status=applied&target=${config.contract}&entrypoint.in=deposit,request_withdrawal,finalize_withdrawal`);
+}
+
+// Restrict a query to operations strictly above a level (incremental sync)
+function sinceLevel(baseUrl: string, fromLevel: number | null): string {
+  return fromLevel === null ? baseUrl : `${baseUrl}&level.gt=${fromLevel}`;
+}
 
 const PAGE_SIZE = 10000;
 
 // Types
 export interface StakingOperation {
+  level: number;
+  cycle?: number; // Tezos cycle of `level`, set once cycles are known (see assignCycles)
+  hash?: string;
+  counter?: number;
+  nonce?: number; // set for internal operations sharing hash/counter
   timestamp: string;
   type: 'stake' | 'unstake' | 'finalize';
-  amount: number; // in TEZ (already converted from mutez)
+  amount: bigint; // XTZ in mutez
+  exact: boolean; // false when the amount is estimated from the exchange rate
+  stxtzAmount?: bigint; // stXTZ burned, in mutez (only for withdrawal requests)
   source: 'bakery' | 'stxtz';
   sender?: string; // wallet address (only for stxtz operations)
+  baker?: string; // baker address (only for bakery operations)
 }
 
-interface BakeryResponse {
+export interface BakeryResponse {
+  id: number;
   level: number;
+  hash: string;
+  counter: number;
   timestamp: string;
   action: 'stake' | 'unstake' | 'finalize';
   amount: number;
@@ -35,12 +65,15 @@ interface StorageDiff {
   };
 }
 
-interface StXTZResponse {
+export interface StXTZResponse {
+  id: number;
   level: number;
   timestamp: string;
   amount: number;
   hash: string;
   counter: number;
+  nonce?: number | null;
+  status?: string;
   parameter: {
     entrypoint: string;
     value: string | object;
@@ -51,35 +84,46 @@ interface StXTZResponse {
   };
 }
 
-// LocalStorage key for caching withdrawal amounts
-const WITHDRAWAL_CACHE_KEY = 'stxtz_withdrawal_cache';
+// Cache key for withdrawal amounts (one cache per network/contract).
+// v2: earlier caches may hold amounts of unrelated queue entries
+const WITHDRAWAL_CACHE_KEY = 'stxtz_withdrawal_cache_v2';
 
-// Load withdrawal cache from localStorage
-function loadWithdrawalCache(): Record<string, number> {
+function withdrawalCacheKey(config: DashboardConfig): string {
+  return `${WITHDRAWAL_CACHE_KEY}:${config.network}:${config.contract}`;
+}
+
+// Load the withdrawal cache (mutez as strings)
+async function loadWithdrawalCache(config: DashboardConfig): Promise<Record<string, string>> {
+  if (!isPersistent()) return {};
   try {
-    const cached = localStorage.getItem(WITHDRAWAL_CACHE_KEY);
-    return cached ? JSON.parse(cached) : {};
+    const entries = await readCache<Record<string, unknown>>(withdrawalCacheKey(config)) ?? {};
+    return Object.fromEntries(Object.entries(entries).filter((entry): entry is [string, string] => typeof entry[1] === 'string'));
   } catch {
     return {};
   }
 }
 
-// Save withdrawal cache to localStorage
-function saveWithdrawalCache(cache: Record<string, number>): void {
+async function saveWithdrawalCache(config: DashboardConfig, cache: Record<string, string>): Promise<void> {
+  if (!isPersistent()) return;
   try {
-    localStorage.setItem(WITHDRAWAL_CACHE_KEY, JSON.stringify(cache));
+    await writeCache(withdrawalCacheKey(config), cache);
   } catch (error) {
     console.warn('Failed to save withdrawal cache:', error);
   }
 }
 
-// Helper: recursively find all objects with both xtz_amount and stxtz_amount
-function findXtzAmountEntries(obj: any, results: Array<{xtz_amount: string, stxtz_amount: string}> = []): Array<{xtz_amount: string, stxtz_amount: string}> {
+// Helper: recursively find all objects with both xtz_amount and stxtz_amount (withdrawal queue items)
+export function findXtzAmountEntries(obj: any, results: QueueItemAmounts[] = []): QueueItemAmounts[] {
   if (!obj || typeof obj !== 'object') return results;
   
   // Check if this object has both xtz_amount and stxtz_amount
   if (obj.xtz_amount && obj.stxtz_amount) {
-    results.push({ xtz_amount: obj.xtz_amount, stxtz_amount: obj.stxtz_amount });
+    results.push({
+      xtz_amount: obj.xtz_amount,
+      stxtz_amount: obj.stxtz_amount,
+      price: obj.price,
+      block_level: obj.block_level
+    });
   }
   
   // Recurse into arrays and objects
@@ -97,135 +141,290 @@ function findXtzAmountEntries(obj: any, results: Array<{xtz_amount: string, stxt
 }
 
 // Fetch operation details by hash/counter to get xtz_amount from storage
-async function fetchWithdrawalAmountByHash(hash: string, counter: number, expectedStxtzAmount: number): Promise<number | null> {
+// Returns null when no queue entry matches the withdrawn stXTZ amount (the caller then
+// estimates from the rate history); request failures throw
+async function fetchWithdrawalAmountByHash(config: DashboardConfig, hash: string, counter: number, expectedStxtzAmount: bigint, signal?: AbortSignal): Promise<bigint | null> {
   // Use hash/counter format for direct lookup
-  const url = `https://api.tzkt.io/v1/operations/transactions/${hash}/${counter}`;
+  const url = tzktUrl(config, `operations/transactions/${hash}/${counter}`);
   
-  try {
-    const response = await fetch(url);
-    if (!response.ok) {
-      console.warn(`Failed to fetch ${url}: ${response.status}`);
-      return null;
-    }
-    
-    const data = await response.json();
-    
-    // API may return single object or array - normalize to array
-    const transactions: any[] = Array.isArray(data) ? data : [data];
-    
-    // Find the request_withdrawal transaction
-    for (const tx of transactions) {
-      if (tx.parameter?.entrypoint === 'request_withdrawal') {
-        // First try: storage.pending_queue (expected location)
-        const queue = tx.storage?.pending_queue;
-        if (queue && Array.isArray(queue) && queue.length > 0) {
-          const lastEntry = queue[queue.length - 1];
-          if (lastEntry.xtz_amount && lastEntry.stxtz_amount) {
-            // Verify this is our withdrawal by checking stxtz_amount matches
-            const stxtz = parseInt(lastEntry.stxtz_amount, 10);
-            if (stxtz === expectedStxtzAmount) {
-              return parseInt(lastEntry.xtz_amount, 10);
-            }
+  const data = await fetchJson<any>(url, { signal });
+  
+  // API may return single object or array - normalize to array
+  const transactions: any[] = Array.isArray(data) ? data : [data];
+  
+  // Find the request_withdrawal transaction
+  for (const tx of transactions) {
+    if (tx.parameter?.entrypoint === 'request_withdrawal') {
+      // First try: storage.pending_queue (expected location)
+      const queue = tx.storage?.pending_queue;
+      if (queue && Array.isArray(queue) && queue.length > 0) {
+        const lastEntry = queue[queue.length - 1];
+        if (lastEntry.xtz_amount && lastEntry.stxtz_amount) {
+          // Verify this is our withdrawal by checking stxtz_amount matches
+          const stxtz = parseMutez(lastEntry.stxtz_amount);
+          if (stxtz === expectedStxtzAmount) {
+            return parseMutez(lastEntry.xtz_amount);
           }
         }
-        
-        // Second try: deep search for matching stxtz_amount
-        const entries = findXtzAmountEntries(tx);
-        if (entries.length > 0) {
-          const match = entries.find(e => parseInt(e.stxtz_amount, 10) === expectedStxtzAmount);
-          if (match) {
-            return parseInt(match.xtz_amount, 10);
-          }
-          // No exact match - use last entry as fallback
-          return parseInt(entries[entries.length - 1].xtz_amount, 10);
+      }
+      
+      // Second try: deep search for matching stxtz_amount
+      const entries = findXtzAmountEntries(tx);
+      if (entries.length > 0) {
+        const match = entries.find(e => parseMutez(e.stxtz_amount) === expectedStxtzAmount);
+        if (match) {
+          return parseMutez(match.xtz_amount);
         }
       }
     }
-    
-    console.warn(`No xtz_amount found for ${hash}/${counter}`);
-    return null;
-  } catch (error) {
-    console.warn(`Error fetching withdrawal by hash ${hash}:`, error);
-    return null;
   }
+  
+  console.warn(`No xtz_amount found for ${hash}/${counter}`);
+  return null;
+}
+
+// Progress of a paginated fetch, reported after every page
+export interface PageProgress {
+  pages: number;   // pages fetched so far
+  records: number; // records fetched so far
+  done: boolean;
 }
 
+export interface FetchOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: PageProgress) => void;
+}
 
 // Generic paginated fetch function
-async function fetchAllPages<T>(baseUrl: string, pageSize: number = PAGE_SIZE): Promise<T[]> {
+// Pages with an id cursor (id.gt + sort.asc=id) so records landing mid-fetch can't shift pages
+async function fetchAllPages<T extends { id: number }>(baseUrl: string, options: FetchOptions = {}, pageSize: number = PAGE_SIZE): Promise<T[]> {
   const allData: T[] = [];
-  let offset = 0;
-  let hasMore = true;
+  let cursor: number | null = null;
+  let pages = 0;
   
-  while (hasMore) {
-    const url = `${baseUrl}&limit=${pageSize}&offset=${offset}`;
-    const response = await fetch(url);
-    const data: T[] = await response.json();
+  while (true) {
+    const cursorParam = cursor === null ? '' : `&id.gt=${cursor}`;
+    const url = `${baseUrl}&sort.asc=id&limit=${pageSize}${cursorParam}`;
+    const data: T[] = await fetchJson<T[]>(url, { signal: options.signal });
     
     allData.push(...data);
+    pages++;
     
-    // If we got fewer results than page size, we've reached the end
-    if (data.length < pageSize) {
-      hasMore = false;
-    } else {
-      offset += pageSize;
-    }
+    // A short page is the last one; a full page whose last id doesn't advance would loop forever
+    const lastId: number | null = data.length > 0 ? data[data.length - 1].id : null;
+    const done = data.length < pageSize || lastId === null || (cursor !== null && lastId <= cursor);
+    options.onProgress?.({ pages, records: allData.length, done });
+    
+    if (done) break;
+    cursor = lastId;
   }
   
   return allData;
 }
 
-// Fetch bakery staking operations with pagination
-export async function fetchBakeryStaking(): Promise<StakingOperation[]> {
-  const data = await fetchAllPages<BakeryResponse>(BAKERY_API_BASE);
+// Fetch bakery staking operations (defaults to the configured baker), syncing only new levels
+export async function fetchBakeryStaking(config: DashboardConfig, baker: string = config.baker, options: FetchOptions = {}): Promise<StakingOperation[]> {
+  return syncOperations(
+    bakeryStream(config.network, baker),
+    fromLevel => fetchBakeryStakingSince(config, baker, fromLevel, options)
+  );
+}
+
+// Fetch bakery staking operations above a level with pagination
+async function fetchBakeryStakingSince(config: DashboardConfig, baker: string, fromLevel: number | null, options: FetchOptions): Promise<StakingOperation[]> {
+  const data = await fetchAllPages<BakeryResponse>(sinceLevel(bakeryApiBase(config, baker), fromLevel), options);
   
-  console.log(`Fetched ${data.length} total bakery records`);
+  console.log(`Fetched ${data.length} bakery records for ${baker}`);
   
+  return normalizeBakeryOperations(data, baker);
+}
+
+// Convert raw TzKT staking records of a baker into StakingOperations
+export function normalizeBakeryOperations(data: BakeryResponse[], baker: string): StakingOperation[] {
   return data
     .filter(op => op.action === 'stake' || op.action === 'unstake' || op.action === 'finalize')
     .filter(op => op.amount > 0) // Ignore zero-amount operations
     .map(op => ({
+      level: op.level,
+      hash: op.hash,
+      counter: op.counter,
       timestamp: op.timestamp,
       type: op.action as 'stake' | 'unstake' | 'finalize',
-      amount: op.amount / 1_000_000, // Convert mutez to TEZ
-      source: 'bakery' as const
+      amount: parseMutez(op.amount),
+      exact: true,
+      source: 'bakery' as const,
+      baker
     }));
 }
 
-// Fetch stXTZ proxy operations with pagination
-export async function fetchStXTZOperations(): Promise<StakingOperation[]> {
-  const data = await fetchAllPages<StXTZResponse>(STXTZ_API_BASE);
+// stXTZ operations with the exchange rate history used to value their withdrawals
+export interface StXTZHistory {
+  operations: StakingOperation[];
+  rates: RateHistory;
+}
+
+// Fetch stXTZ proxy operations, syncing only new levels
+export async function fetchStXTZOperations(config: DashboardConfig, options: FetchOptions = {}): Promise<StXTZHistory> {
+  const storagePoints = await fetchStorageRatePoints(config, options.signal);
   
-  console.log(`Fetched ${data.length} total stXTZ records`);
+  const operations = await syncOperations(
+    stxtzStream(config.network, config.contract),
+    fromLevel => fetchStXTZOperationsSince(config, fromLevel, buildRateHistory(storagePoints), options)
+  );
   
-  const operations: StakingOperation[] = [];
+  // Exact withdrawal valuations are rate points too; re-value the estimated ones with the combined history
+  const rates = buildRateHistory(storagePoints, ratePointsFromOperations(operations));
   
-  // Collect all withdrawal operations that need price conversion (fallback only)
-  const withdrawals: { op: StXTZResponse; stxtzAmount: number }[] = [];
+  return { operations: revalueWithdrawals(operations, rates), rates };
+}
+
+// Cache key for rate points read from contract storage history
+const RATE_CACHE_KEY = 'stxtz_rate_cache';
+const STORAGE_HISTORY_PAGE_SIZE = 100;
+
+interface RateCache {
+  lastHistoryId: number;
+  points: [number, number, string][]; // [level, rate, timestamp]
+}
+
+interface StorageHistoryEntry {
+  id: number;
+  level: number;
+  timestamp: string;
+  value: unknown;
+}
+
+async function loadRateCache(config: DashboardConfig): Promise<RateCache> {
+  const empty: RateCache = { lastHistoryId: 0, points: [] };
+  if (!isPersistent()) return empty;
+  try {
+    return await readCache<RateCache>(`${RATE_CACHE_KEY}:${config.network}:${config.contract}`) ?? empty;
+  } catch {
+    return empty;
+  }
+}
+
+async function saveRateCache(config: DashboardConfig, cache: RateCache): Promise<void> {
+  if (!isPersistent()) return;
+  try {
+    await writeCache(`${RATE_CACHE_KEY}:${config.network}:${config.contract}`, cache);
+  } catch (error) {
+    console.warn('Failed to save rate cache:', error);
+  }
+}
+
+// Queue items only carry the level they were created at. The storage change that created the
+// item happened at that level, so its timestamp is normally known; otherwise use the closest
+// earlier storage change.
+function estimateTimestamp(levelTimestamps: Map<number, string>, level: number): string {
+  const exact = levelTimestamps.get(level);
+  if (exact) return exact;
+  let best: [number, string] | null = null;
+  for (const entry of levelTimestamps) {
+    if (entry[0] <= level && (!best || entry[0] > best[0])) best = entry;
+  }
+  return best?.[1] ?? Array.from(levelTimestamps.values())[0] ?? new Date().toISOString();
+}
+
+// Read withdrawal queue items from the contract's storage history and turn them into rate points.
+// Only history entries newer than the cached ones are fetched. Failures fall back to the cache.
+async function fetchStorageRatePoints(config: DashboardConfig, signal?: AbortSignal): Promise<RatePoint[]> {
+  const cache = await loadRateCache(config);
+  const items: QueueItemAmounts[] = [];
+  const levelTimestamps = new Map<number, string>();
+  let newestId = cache.lastHistoryId;
+  let complete = false;
+  
+  try {
+    // Storage history is returned newest first and paged with lastId
+    let lastId: number | null = null;
+    while (true) {
+      const lastIdParam: string = lastId === null ? '' : `&lastId=${lastId}`;
+      const page: StorageHistoryEntry[] = await fetchJson<StorageHistoryEntry[]>(
+        tzktUrl(config, `contracts/${config.contract}/storage/history?limit=${STORAGE_HISTORY_PAGE_SIZE}${lastIdParam}`),
+        { signal }
+      );
+      
+      const fresh = page.filter(entry => entry.id > cache.lastHistoryId);
+      for (const entry of fresh) {
+        newestId = Math.max(newestId, entry.id);
+        levelTimestamps.set(entry.level, entry.timestamp);
+        findXtzAmountEntries(entry.value, items);
+      }
+      
+      if (page.length < STORAGE_HISTORY_PAGE_SIZE || fresh.length < page.length) {
+        complete = true;
+        break;
+      }
+      lastId = page[page.length - 1].id;
+    }
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.warn('Failed to read contract storage history, using cached exchange rates:', error);
+  }
+  
+  const cachedPoints = cache.points.map(([level, rate, timestamp]) => ({ level, rate, timestamp }));
+  const history = buildRateHistory(cachedPoints, ratePointsFromQueueItems(items, level => estimateTimestamp(levelTimestamps, level)));
+  await saveRateCache(config, {
+    // Only advance the cursor if every newer entry was read, otherwise the gap would never be filled
+    lastHistoryId: complete ? newestId : cache.lastHistoryId,
+    points: history.map(point => [point.level, point.rate, point.timestamp])
+  });
+  
+  console.log(`Exchange rate history: ${history.length} points from contract storage`);
+  return history;
+}
+
+// Identity fields shared by every operation built from an stXTZ transaction
+function stxtzOperationRef(op: StXTZResponse): Pick<StakingOperation, 'level' | 'hash' | 'counter' | 'nonce' | 'timestamp' | 'sender'> {
+  return {
+    level: op.level,
+    hash: op.hash,
+    counter: op.counter,
+    nonce: op.nonce ?? undefined,
+    timestamp: op.timestamp,
+    sender: op.sender?.address
+  };
+}
+
+// Fetch stXTZ proxy operations above a level with pagination
+async function fetchStXTZOperationsSince(config: DashboardConfig, fromLevel: number | null, rates: RateHistory, options: FetchOptions): Promise<StakingOperation[]> {
+  const data = await fetchAllPages<StXTZResponse>(sinceLevel(stxtzApiBase(config), fromLevel), options);
+  
+  console.log(`Fetched ${data.length} stXTZ records`);
   
+  return normalizeStXTZOperations(config, data, rates, options.signal);
+}
 
+// Convert raw stXTZ contract calls into StakingOperations, resolving withdrawal amounts in XTZ.
+// Withdrawals whose amount cannot be looked up are valued from `rates`.
+export async function normalizeStXTZOperations(config: DashboardConfig, data: StXTZResponse[], rates: RateHistory, signal?: AbortSignal): Promise<StakingOperation[]> {
+  const operations: StakingOperation[] = [];
   
+  // Collect all withdrawal operations that need price conversion (fallback only)
+  const withdrawals: { op: StXTZResponse; stxtzAmount: bigint }[] = [];
+
   for (const op of data) {
     const entrypoint = op.parameter.entrypoint;
     
     if (entrypoint === 'deposit') {
       // For deposits, amount is in TEZ (transaction amount field)
       operations.push({
-        timestamp: op.timestamp,
+        ...stxtzOperationRef(op),
         type: 'stake',
-        amount: op.amount / 1_000_000,
-        source: 'stxtz',
-        sender: op.sender?.address
+        amount: parseMutez(op.amount),
+        exact: true,
+        source: 'stxtz'
       });
     } else if (entrypoint === 'request_withdrawal') {
       // For request_withdrawal, amount is in stXTZ (needs price conversion)
       const stxtzAmount = typeof op.parameter.value === 'string' 
-        ? parseInt(op.parameter.value, 10) 
-        : 0;
+        ? parseMutez(op.parameter.value) 
+        : 0n;
       
       // Note: diffs don't work with TzKT API, so we use the stxtz amount
       // and will need price conversion. For now, track these for later conversion.
-      if (stxtzAmount > 0) {
+      if (stxtzAmount > 0n) {
         withdrawals.push({ op, stxtzAmount });
       }
     } else if (entrypoint === 'finalize_withdrawal') {
@@ -233,67 +432,63 @@ export async function fetchStXTZOperations(): Promise<StakingOperation[]> {
       // Ignore zero-amount finalizes
       if (op.amount > 0) {
         operations.push({
-          timestamp: op.timestamp,
+          ...stxtzOperationRef(op),
           type: 'finalize',
-          amount: op.amount / 1_000_000,
-          source: 'stxtz',
-          sender: op.sender?.address
+          amount: parseMutez(op.amount),
+          exact: true,
+          source: 'stxtz'
         });
       }
     }
   }
-  
 
   // Load cache and process withdrawals with hash-based lookup
-  const withdrawalCache = loadWithdrawalCache();
+  const withdrawalCache = await loadWithdrawalCache(config);
   let cacheHits = 0;
   let cacheMisses = 0;
   
   console.log(`Processing ${withdrawals.length} withdrawal requests...`);
   
-  // Process withdrawals in batches to avoid overwhelming the API
-  const BATCH_SIZE = 2; // Smaller batch size for rate limiting
-  for (let i = 0; i < withdrawals.length; i += BATCH_SIZE) {
-    const batch = withdrawals.slice(i, i + BATCH_SIZE);
-    
+  // Look up withdrawals in parallel - the shared HTTP client caps concurrency and backs off on 429s
+  try {
     const results = await Promise.all(
-      batch.map(async ({ op, stxtzAmount }, index) => {
+      withdrawals.map(async ({ op, stxtzAmount }) => {
         const cacheKey = `${op.hash}-${op.level}`;
         
         // Check cache first
         if (withdrawalCache[cacheKey]) {
           cacheHits++;
           return {
-            timestamp: op.timestamp,
-            amount: withdrawalCache[cacheKey],
-            sender: op.sender?.address
+            op,
+            stxtzAmount,
+            amount: parseMutez(withdrawalCache[cacheKey]),
+            exact: true
           };
         }
         
-        // Delay before API call (stagger requests within batch)
-        await new Promise(resolve => setTimeout(resolve, index * 300));
-        
         // Fetch from API
         cacheMisses++;
-        const xtzAmount = await fetchWithdrawalAmountByHash(op.hash, op.counter, stxtzAmount);
+        const xtzAmount = await fetchWithdrawalAmountByHash(config, op.hash, op.counter, stxtzAmount, signal);
         
         if (xtzAmount !== null) {
-          const amountInTez = xtzAmount / 1_000_000;
-          withdrawalCache[cacheKey] = amountInTez;
+          withdrawalCache[cacheKey] = xtzAmount.toString();
           return {
-            timestamp: op.timestamp,
-            amount: amountInTez,
-            sender: op.sender?.address
+            op,
+            stxtzAmount,
+            amount: xtzAmount,
+            exact: true
           };
         }
         
-        // Fallback: use stxtz amount as 1:1 approximation
-        const fallbackAmount = stxtzAmount / 1_000_000;
-        console.warn(`Could not get xtz_amount for ${op.hash}, using stxtz as fallback: ${fallbackAmount.toFixed(2)} TEZ`);
+        // Fallback: value the stXTZ at the exchange rate known at that level
+        const { rate, exact } = rateAt(rates, op.level);
+        const estimatedAmount = mulRate(stxtzAmount, rate);
+        console.warn(`Could not get xtz_amount for ${op.hash}, valuing at rate ${rate.toFixed(6)}: ${toTez(estimatedAmount).toFixed(2)} TEZ`);
         return {
-          timestamp: op.timestamp,
-          amount: fallbackAmount,
-          sender: op.sender?.address
+          op,
+          stxtzAmount,
+          amount: estimatedAmount,
+          exact
         };
       })
     );
@@ -301,38 +496,34 @@ export async function fetchStXTZOperations(): Promise<StakingOperation[]> {
     // Add results to operations
     for (const result of results) {
       operations.push({
-        timestamp: result.timestamp,
+        ...stxtzOperationRef(result.op),
         type: 'unstake',
         amount: result.amount,
-        source: 'stxtz',
-        sender: result.sender
+        exact: result.exact,
+        stxtzAmount: result.stxtzAmount,
+        source: 'stxtz'
       });
     }
-    
-    // Delay between batches to avoid rate limiting
-    if (i + BATCH_SIZE < withdrawals.length) {
-      await new Promise(resolve => setTimeout(resolve, 500));
-    }
+  } finally {
+    // Save updated cache, keeping lookups that succeeded before any failure
+    await saveWithdrawalCache(config, withdrawalCache);
   }
   
-  // Save updated cache
-  saveWithdrawalCache(withdrawalCache);
   console.log(`Withdrawal processing complete: ${cacheHits} cache hits, ${cacheMisses} API lookups`);
-  
 
-  
   return operations;
 }
 
 // Calculate stats from operations
 export interface StakingStats {
-  totalStaked: number;
-  totalUnstaked: number;
-  totalFinalized: number;
+  totalStaked: bigint;   // mutez
+  totalUnstaked: bigint;
+  totalFinalized: bigint;
   stakeCount: number;
   unstakeCount: number;
   finalizeCount: number;
-  netStaked: number;
+  netStaked: bigint;
+  estimatedCount: number; // operations whose amount is an exchange-rate estimate
 }
 
 export function calculateStats(operations: StakingOperation[]): StakingStats {
@@ -340,9 +531,9 @@ export function calculateStats(operations: StakingOperation[]): StakingStats {
   const unstakes = operations.filter(op => op.type === 'unstake');
   const finalizes = operations.filter(op => op.type === 'finalize');
   
-  const totalStaked = stakes.reduce((sum, op) => sum + op.amount, 0);
-  const totalUnstaked = unstakes.reduce((sum, op) => sum + op.amount, 0);
-  const totalFinalized = finalizes.reduce((sum, op) => sum + op.amount, 0);
+  const totalStaked = sumMutez(stakes.map(op => op.amount));
+  const totalUnstaked = sumMutez(unstakes.map(op => op.amount));
+  const totalFinalized = sumMutez(finalizes.map(op => op.amount));
   
   return {
     totalStaked,
@@ -351,42 +542,121 @@ export function calculateStats(operations: StakingOperation[]): StakingStats {
     stakeCount: stakes.length,
     unstakeCount: unstakes.length,
     finalizeCount: finalizes.length,
-    netStaked: totalStaked - totalUnstaked
+    netStaked: totalStaked - totalUnstaked,
+    estimatedCount: operations.filter(op => !op.exact).length
   };
 }
 
+// Totals of one cycle
+export interface CycleStats {
+  cycle: number;
+  staked: bigint; // mutez
+  unstaked: bigint;
+  finalized: bigint;
+  stakeCount: number;
+  unstakeCount: number;
+  finalizeCount: number;
+}
+
+// Per-cycle totals, oldest cycle first (operations without a cycle are skipped)
+export function calculateCycleStats(operations: StakingOperation[]): CycleStats[] {
+  const byCycle = new Map<number, CycleStats>();
+  
+  for (const op of operations) {
+    if (op.cycle === undefined) continue;
+    if (!byCycle.has(op.cycle)) {
+      byCycle.set(op.cycle, {
+        cycle: op.cycle,
+        staked: 0n, unstaked: 0n, finalized: 0n,
+        stakeCount: 0, unstakeCount: 0, finalizeCount: 0
+      });
+    }
+    const stats = byCycle.get(op.cycle)!;
+    if (op.type === 'stake') {
+      stats.staked += op.amount;
+      stats.stakeCount++;
+    } else if (op.type === 'unstake') {
+      stats.unstaked += op.amount;
+      stats.unstakeCount++;
+    } else if (op.type === 'finalize') {
+      stats.finalized += op.amount;
+      stats.finalizeCount++;
+    }
+  }
+  
+  return Array.from(byCycle.values()).sort((a, b) => a.cycle - b.cycle);
+}
+
 // Wallet-level statistics
 export interface WalletStats {
   address: string;
-  totalDeposited: number;
-  totalWithdrawn: number;
-  totalFinalized: number;
-  netPosition: number;
+  // XTZ amounts in mutez
+  totalDeposited: bigint;
+  totalWithdrawn: bigint;
+  totalFinalized: bigint;
+  // stXTZ moved outside the contract, valued in XTZ at the redemption rate of its level
+  transferredIn: bigint;
+  transferredOut: bigint;
+  swappedIn: bigint;       // bought on a DEX
+  swappedOut: bigint;      // sold on a DEX
+  liquidityAdded: bigint;
+  liquidityRemoved: bigint;
+  netPosition: bigint;
   depositCount: number;
   withdrawCount: number;
   finalizeCount: number;
+  transferCount: number;   // peer transfers, swaps and liquidity changes
+  firstSeen: string | null;  // timestamp of the wallet's first operation or transfer
+  lastActive: string | null; // timestamp of its latest one
 }
 
-export function calculateWalletStats(operations: StakingOperation[]): WalletStats[] {
+// Transfer kinds that move stXTZ between wallets (mints and burns are deposits and withdrawals)
+const TRANSFER_FIELDS = {
+  peer: ['transferredIn', 'transferredOut'],
+  swap: ['swappedIn', 'swappedOut'],
+  'lp-remove': ['liquidityRemoved', 'liquidityAdded'],
+  'lp-add': ['liquidityRemoved', 'liquidityAdded']
+} as const;
+
+export function calculateWalletStats(operations: StakingOperation[], transfers: ClassifiedTransfer[] = [], rates: RateHistory = []): WalletStats[] {
   const walletMap = new Map<string, WalletStats>();
   
-  for (const op of operations) {
-    if (op.source !== 'stxtz' || !op.sender) continue;
-    
-    if (!walletMap.has(op.sender)) {
-      walletMap.set(op.sender, {
-        address: op.sender,
-        totalDeposited: 0,
-        totalWithdrawn: 0,
-        totalFinalized: 0,
-        netPosition: 0,
+  const walletFor = (address: string) => {
+    if (!walletMap.has(address)) {
+      walletMap.set(address, {
+        address,
+        totalDeposited: 0n,
+        totalWithdrawn: 0n,
+        totalFinalized: 0n,
+        transferredIn: 0n,
+        transferredOut: 0n,
+        swappedIn: 0n,
+        swappedOut: 0n,
+        liquidityAdded: 0n,
+        liquidityRemoved: 0n,
+        netPosition: 0n,
         depositCount: 0,
         withdrawCount: 0,
-        finalizeCount: 0
+        finalizeCount: 0,
+        transferCount: 0,
+        firstSeen: null,
+        lastActive: null
       });
     }
+    return walletMap.get(address)!;
+  };
+  
+  // ISO timestamps compare correctly as strings
+  const touch = (wallet: WalletStats, timestamp: string) => {
+    if (wallet.firstSeen === null || timestamp < wallet.firstSeen) wallet.firstSeen = timestamp;
+    if (wallet.lastActive === null || timestamp > wallet.lastActive) wallet.lastActive = timestamp;
+  };
+  
+  for (const op of operations) {
+    if (op.source !== 'stxtz' || !op.sender) continue;
     
-    const wallet = walletMap.get(op.sender)!;
+    const wallet = walletFor(op.sender);
+    touch(wallet, op.timestamp);
     
     if (op.type === 'stake') {
       wallet.totalDeposited += op.amount;
@@ -398,12 +668,37 @@ export function calculateWalletStats(operations: StakingOperation[]): WalletStat
       wallet.totalFinalized += op.amount;
       wallet.finalizeCount++;
     }
+  }
+  
+  // Pools are not wallets: only the wallet side of swaps and liquidity changes is counted
+  for (const transfer of transfers) {
+    if (transfer.kind === 'mint' || transfer.kind === 'burn' || !transfer.from || !transfer.to) continue;
     
-    wallet.netPosition = wallet.totalDeposited - wallet.totalWithdrawn;
+    const [inField, outField] = TRANSFER_FIELDS[transfer.kind];
+    const value = mulRate(parseMutez(transfer.amount), rateAt(rates, transfer.level).rate);
+    if (transfer.to.address !== transfer.pool) {
+      const receiver = walletFor(transfer.to.address);
+      receiver[inField] += value;
+      receiver.transferCount++;
+      touch(receiver, transfer.timestamp);
+    }
+    if (transfer.from.address !== transfer.pool) {
+      const sender = walletFor(transfer.from.address);
+      sender[outField] += value;
+      sender.transferCount++;
+      touch(sender, transfer.timestamp);
+    }
+  }
+  
+  for (const wallet of walletMap.values()) {
+    wallet.netPosition = wallet.totalDeposited - wallet.totalWithdrawn
+      + wallet.transferredIn - wallet.transferredOut
+      + wallet.swappedIn - wallet.swappedOut
+      + wallet.liquidityRemoved - wallet.liquidityAdded;
   }
   
   // Sort by net position (highest first)
-  return Array.from(walletMap.values()).sort((a, b) => b.netPosition - a.netPosition);
+  return Array.from(walletMap.values()).sort((a, b) => compareMutez(b.netPosition, a.netPosition));
 }
 
 // Fetch stXTZ token holders
@@ -415,21 +710,87 @@ export interface StXTZHolder {
   balance: string; // Token balance is string in API
 }
 
-export async function fetchStXTZHolders(): Promise<StXTZHolder[]> {
+// Holders as loaded, and whether that is all of them
+export interface HolderSet {
+  holders: StXTZHolder[];  // largest balance first
+  expected: number | null; // holder count TzKT reports for the token, if known
+  complete: boolean;       // every holder TzKT knows about was loaded
+}
+
+export async function fetchStXTZHolders(config: DashboardConfig, options: FetchOptions = {}): Promise<HolderSet> {
+  const [balances, [expected]] = await Promise.all([
+    fetchAllPages<StXTZHolder & { id: number }>(
+      tzktUrl(config, `tokens/balances?select=id,account,balance&token.id=${config.tokenId}&balance.gt=0`),
+      options
+    ),
+    fetchJson<(number | null)[]>(tzktUrl(config, `tokens?id=${config.tokenId}&select=holdersCount`), { signal: options.signal })
+  ]);
+  
+  // Paged by id for stable cursors; the leaderboard wants the largest balances first
+  const holders = balances
+    .map(({ account, balance }) => ({ account, balance }))
+    .sort((a, b) => compareMutez(parseMutez(b.balance), parseMutez(a.balance)));
+  
+  return {
+    holders,
+    expected: expected ?? null,
+    complete: expected == null || holders.length >= expected
+  };
+}
+
+// Fetch TzKT aliases for a set of bakers (address -> alias). Missing aliases are simply omitted.
+export async function fetchBakerAliases(config: DashboardConfig, bakers: string[], options: FetchOptions = {}): Promise<Record<string, string>> {
   try {
-    const response = await fetch('https://api.tzkt.io/v1/tokens/balances?select.values=account,balance&token.id=1763964454174721&balance.gt=0&sort.desc=balance&limit=1000');
-    if (!response.ok) throw new Error('Failed to fetch holders');
-    
-    // The select.values param makes the response an array of arrays: [[account, balance], ...]
-    const data = await response.json();
+    const data = await fetchJson<[string, string | null][]>(
+      tzktUrl(config, `accounts?address.in=${bakers.join(',')}&select.values=address,alias`),
+      { signal: options.signal }
+    );
     
-    // Map back to object structure
-    return data.map((item: any[]) => ({
-      account: item[0],
-      balance: item[1]
-    }));
+    const aliases: Record<string, string> = {};
+    for (const [address, alias] of data) {
+      if (alias) aliases[address] = alias;
+    }
+    return aliases;
   } catch (error) {
-    console.warn('Error fetching stXTZ holders:', error);
-    return [];
+    // Aliases are cosmetic - fall back to short addresses, but never swallow a cancellation
+    if (isAbortError(error)) throw error;
+    console.warn('Error fetching baker aliases:', error);
+    return {};
   }
 }
+
+// stXTZ token transfer (mints and burns have no from/to respectively)
+export interface TokenTransfer {
+  id: number;
+  level: number;
+  timestamp: string;
+  from?: { address: string; alias?: string } | null;
+  to?: { address: string; alias?: string } | null;
+  amount: string; // raw token units (6 decimals)
+  transactionId?: number;
+}
+
+// Fetch every stXTZ transfer (mints, burns and moves between wallets), oldest first
+export async function fetchTokenTransfers(config: DashboardConfig, options: FetchOptions = {}): Promise<TokenTransfer[]> {
+  return fetchAllPages<TokenTransfer>(
+    tzktUrl(config, `tokens/transfers?token.id=${config.tokenId}&select=id,level,timestamp,from,to,amount,transactionId`),
+    options
+  );
+}
+
+// Fetch the current stXTZ total supply (in mutez)
+export async function fetchTokenSupply(config: DashboardConfig, options: FetchOptions = {}): Promise<bigint> {
+  const [supply] = await fetchJson<string[]>(
+    tzktUrl(config, `tokens?id=${config.tokenId}&select=totalSupply`),
+    { signal: options.signal }
+  );
+  return parseMutez(supply);
+}
+
+// Fetch every stXTZ transfer into or out of one wallet, oldest first
+export async function fetchWalletTokenTransfers(config: DashboardConfig, address: string, options: FetchOptions = {}): Promise<TokenTransfer[]> {
+  return fetchAllPages<TokenTransfer>(
+    tzktUrl(config, `tokens/transfers?token.id=${config.tokenId}&anyof.from.to.eq=${address}&select=id,level,timestamp,from,to,amount,transactionId`),
+    options
+  );
+}
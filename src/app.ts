@@ -0,0 +1,354 @@
+import type { StXTZResponse, TokenTransfer, WalletStats } from './api';
+import type { ChartData } from './chartData';
+import type { DashboardConfig } from './config';
+import { assignCycles } from './cycles';
+import type { FixtureMode } from './fixtures';
+import { evaluateAlerts, mergeAlerts } from './alerts';
+import { buildRateHistory, ratePointsFromOperations } from './rates';
+import { createTzktTransport, startLiveUpdates, mergeOperations } from './live';
+import type { LiveConnection } from './live';
+import { isAbortError } from './http';
+import { createPipeline } from './pipeline';
+import type { JobInput, Pipeline } from './pipeline';
+import { SOURCE_KEYS, SOURCE_LABELS, updateData, watch } from './state';
+import type { AppState, DashboardData, SourceKey, SourceStatus, Store } from './state';
+
+// Everything that changes the data in the store: loading and retrying each source, wallet
+// transfers and stats, alert evaluation and live mode. Fetching and aggregating run in the
+// pipeline worker; views call these and re-render from the state they produce.
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+function setSource(store: Store<AppState>, key: SourceKey, changes: Partial<SourceStatus>) {
+  store.set(state => ({ sources: { ...state.sources, [key]: { ...state.sources[key], ...changes } } }));
+}
+
+// The worker every source is fetched and aggregated in (see pipeline.ts)
+let pipeline: Pipeline | null = null;
+
+// Start the worker with the config and fixture mode; rejects if e.g. the fixtures cannot be loaded
+export async function startPipeline(config: DashboardConfig, fixtureMode: FixtureMode | null): Promise<void> {
+  pipeline = createPipeline();
+  await pipeline.run('init', { config, fixtureMode });
+}
+
+function worker(): Pipeline {
+  if (!pipeline) throw new Error('The data pipeline was not started');
+  return pipeline;
+}
+
+// Operations get their cycle from the cycle list, whichever of the two arrives last
+function withCycles(data: Partial<DashboardData>, changes: Partial<DashboardData>): Partial<DashboardData> {
+  const cycles = changes.cycles ?? data.cycles;
+  if (!cycles) return changes;
+  const ops = changes.cycles ? { ...data, ...changes } : changes;
+  return {
+    ...changes,
+    ...(ops.bakeryOps && { bakeryOps: assignCycles(ops.bakeryOps, cycles) }),
+    ...(ops.stxtzOps && { stxtzOps: assignCycles(ops.stxtzOps, cycles) }),
+    ...(ops.comparisonOps && {
+      comparisonOps: new Map(Array.from(ops.comparisonOps, ([baker, list]) => [baker, assignCycles(list, cycles)]))
+    })
+  };
+}
+
+// Load one source into the store, recording its progress and outcome. A failure leaves
+// any data loaded earlier in place; resolves to whether the load succeeded.
+export async function loadSource(store: Store<AppState>, key: SourceKey, signal?: AbortSignal): Promise<boolean> {
+  setSource(store, key, { state: 'loading', progress: null, error: null });
+  try {
+    const changes = await worker().run('source', { key }, {
+      signal,
+      onProgress: progress => setSource(store, key, { progress })
+    });
+    updateData(store, data => withCycles(data, changes));
+    setSource(store, key, { state: 'ready', syncedAt: new Date().toISOString() });
+    return true;
+  } catch (error) {
+    if (isAbortError(error)) return false;
+    console.warn(`Failed to load ${SOURCE_LABELS[key]}:`, error);
+    setSource(store, key, { state: 'error', error: errorMessage(error) });
+    return false;
+  }
+}
+
+// Load (or reload) every source in parallel, then evaluate the alert rules over the history.
+// The signal cancels all outstanding requests.
+export async function loadDashboard(store: Store<AppState>, signal?: AbortSignal, notify = false): Promise<void> {
+  const results = await Promise.all(SOURCE_KEYS.map(key => loadSource(store, key, signal)));
+  const { data } = store.get();
+  console.log(`Loaded ${results.filter(Boolean).length} of ${SOURCE_KEYS.length} sources`);
+  if (data.bakeryOps) console.log(`Fetched ${data.bakeryOps.length} bakery operations`);
+  if (data.stxtzOps) console.log(`Fetched ${data.stxtzOps.length} stXTZ operations`);
+  if (data.holders) console.log(`Fetched ${data.holders.holders.length} stXTZ holders${data.holders.complete ? '' : ' (incomplete)'}`);
+  if (data.transfers) console.log(`Fetched ${data.transfers.length} stXTZ transfers`);
+  runAlerts(store, notify);
+}
+
+// Retry one source after it failed; alerts are re-evaluated when their inputs change
+export async function retrySource(store: Store<AppState>, key: SourceKey): Promise<void> {
+  const loaded = await loadSource(store, key);
+  if (loaded && (key === 'stxtzOps' || key === 'transfers')) runAlerts(store, false);
+}
+
+// Fetch a wallet's stXTZ transfers unless they are already in the store
+export async function loadWalletTransfers(store: Store<AppState>, address: string, signal?: AbortSignal): Promise<TokenTransfer[]> {
+  const cached = store.get().walletTransfers.get(address);
+  if (cached) return cached;
+
+  const transfers = await worker().run('walletTransfers', { address }, { signal });
+  store.set(state => ({ walletTransfers: new Map(state.walletTransfers).set(address, transfers) }));
+  return transfers;
+}
+
+// Data fields computed in the worker from other fields; each has a job of the same name
+type DerivedKey = 'walletStats' | 'withdrawalQueue' | 'healthHistory' | 'reconciliation' | 'concentration';
+
+const DERIVED_LABELS: Record<DerivedKey, string> = {
+  walletStats: 'wallet stats',
+  withdrawalQueue: 'the withdrawal queue',
+  healthHistory: 'the health history',
+  reconciliation: 'the baker reconciliation',
+  concentration: 'the concentration history'
+};
+
+// Recompute a derived field in the worker whenever one of the watched slices is replaced,
+// dropping a computation that was overtaken. `input` returns null while inputs are missing.
+function derive<K extends DerivedKey>(
+  store: Store<AppState>,
+  key: K,
+  selectors: ((state: AppState) => unknown)[],
+  input: (state: AppState) => JobInput<K> | null
+): () => void {
+  let job: AbortController | null = null;
+
+  const stop = watch(store, selectors, async (state) => {
+    job?.abort();
+    const jobInput = input(state);
+    if (!jobInput) return;
+    const controller = new AbortController();
+    job = controller;
+    try {
+      const output = await worker().run(key, jobInput, { signal: controller.signal });
+      updateData(store, () => ({ [key]: output }));
+    } catch (error) {
+      if (!isAbortError(error)) console.warn(`Failed to compute ${DERIVED_LABELS[key]}:`, error);
+    }
+  });
+
+  return () => {
+    stop();
+    job?.abort();
+  };
+}
+
+// Keep every derived field up to date. Inputs that failed to load are left out where the
+// result is still meaningful without them: wallet stats without transfers, the queue
+// without cycles (unlock cycles are then unknown).
+export function deriveData(store: Store<AppState>): () => void {
+  const stops = [
+    derive(store, 'walletStats', [
+      state => state.data.stxtzOps,
+      state => state.data.transfers,
+      state => state.data.rates,
+      state => state.sources.transfers.state
+    ], ({ data: { stxtzOps, transfers, rates }, sources }) => {
+      if (!stxtzOps || !rates) return null;
+      if (!transfers && sources.transfers.state !== 'error') return null;
+      return { stxtzOps, transfers: transfers ?? [], rates };
+    }),
+    derive(store, 'withdrawalQueue', [
+      state => state.data.stxtzOps,
+      state => state.data.bakeryOps,
+      state => state.data.cycles,
+      state => state.data.timing,
+      state => state.sources.cycles.state
+    ], ({ data: { stxtzOps, bakeryOps, cycles, timing }, sources }) => {
+      if (!stxtzOps || !bakeryOps || !timing) return null;
+      if (!cycles && sources.cycles.state !== 'error') return null;
+      return { stxtzOps, bakeryOps, cycles: cycles ?? [], timing };
+    }),
+    derive(store, 'healthHistory', [
+      state => state.data.transfers,
+      state => state.data.contractHistory,
+      state => state.data.rates,
+      state => state.data.withdrawalQueue
+    ], ({ data: { transfers, contractHistory, rates, withdrawalQueue } }) =>
+      transfers && contractHistory && rates && withdrawalQueue ? { transfers, contractHistory, rates, withdrawalQueue } : null
+    ),
+    derive(store, 'reconciliation', [
+      state => state.data.bakeryOps,
+      state => state.data.bakerRewards,
+      state => state.data.timing
+    ], ({ data: { bakeryOps, bakerRewards, timing } }) =>
+      bakeryOps && bakerRewards && timing ? { bakeryOps, bakerRewards, consensusRightsDelay: timing.consensusRightsDelay } : null
+    ),
+    derive(store, 'concentration', [state => state.data.transfers], ({ data: { transfers } }) =>
+      transfers ? { transfers } : null
+    )
+  ];
+
+  return () => stops.forEach(stop => stop());
+}
+
+// Aggregate the staking chart series in the worker
+export function computeChartData(input: JobInput<'chart'>, signal?: AbortSignal): Promise<ChartData> {
+  return worker().run('chart', input, { signal });
+}
+
+// Wallet stats of a subset of the data (e.g. an export's date range), computed in the worker
+export function computeWalletStats(input: JobInput<'walletStats'>, signal?: AbortSignal): Promise<WalletStats[]> {
+  return worker().run('walletStats', input, { signal });
+}
+
+// The TzKT responses recorded in ?record=1 mode as a fixture file, null in other modes
+export function recordedFixtures(): Promise<string | null> {
+  return worker().run('recording', null);
+}
+
+// Browser notifications are opt-in and remembered across visits
+const ALERT_NOTIFICATIONS_KEY = 'stxtz_alert_notifications';
+
+export function notificationsSupported(): boolean {
+  return typeof Notification !== 'undefined';
+}
+
+export function notificationsEnabled(): boolean {
+  return notificationsSupported()
+    && Notification.permission === 'granted'
+    && localStorage.getItem(ALERT_NOTIFICATIONS_KEY) === 'on';
+}
+
+// Turn notifications off, or on if the browser grants permission; resolves to the new setting
+export async function toggleNotifications(): Promise<boolean> {
+  if (notificationsEnabled()) {
+    localStorage.setItem(ALERT_NOTIFICATIONS_KEY, 'off');
+  } else if (await Notification.requestPermission() === 'granted') {
+    localStorage.setItem(ALERT_NOTIFICATIONS_KEY, 'on');
+  }
+  return notificationsEnabled();
+}
+
+// Highest level of a list sorted oldest first
+function lastLevel(items: { level: number }[] | undefined): number {
+  return items && items.length > 0 ? items[items.length - 1].level : 0;
+}
+
+// Evaluate the alert rules over the history and add what fires to the feed. With `notify`,
+// alerts for events above the last evaluated level become browser notifications; events
+// evaluated before (e.g. re-checked by a catch-up after reconnecting) never notify again.
+export function runAlerts(store: Store<AppState>, notify: boolean) {
+  const { config, data, alerts: feed, alertLevel } = store.get();
+  // Rules that need balances or supply skip while transfers are missing
+  if (!data.stxtzOps || !data.rates) return;
+
+  const alerts = evaluateAlerts(config.alertRules, {
+    stxtzOps: data.stxtzOps,
+    transfers: data.transfers ?? [],
+    rates: data.rates
+  });
+  const next = new Map(feed);
+  const added = mergeAlerts(next, alerts);
+  store.set({
+    alerts: next,
+    alertLevel: Math.max(alertLevel ?? 0, lastLevel(data.stxtzOps), lastLevel(data.transfers))
+  });
+
+  if (added.length > 0) console.log(`Alerts: ${added.length} new`);
+  if (notify && alertLevel !== null && notificationsEnabled()) {
+    for (const alert of added.filter(alert => alert.level > alertLevel)) {
+      new Notification('stXTZ alert', { body: alert.message, tag: alert.key });
+    }
+  }
+}
+
+// Update the comparison list in the URL and reload with the new config
+export function setCompareBakers(bakers: string[]) {
+  const url = new URL(window.location.href);
+  if (bakers.length > 0) {
+    url.searchParams.set('compare', bakers.join(','));
+  } else {
+    url.searchParams.delete('compare');
+  }
+  window.location.href = url.toString();
+}
+
+let liveConnection: LiveConnection | null = null;
+let catchUpController: AbortController | null = null;
+
+export function isLive(): boolean {
+  return liveConnection !== null;
+}
+
+// Subscribe to TzKT and fold new operations into the store as they arrive. Sources that
+// have not loaded yet are left alone: their first load will include these operations.
+export function startLiveMode(store: Store<AppState>) {
+  if (liveConnection) return;
+  const { config } = store.get();
+
+  // Withdrawals without a recorded amount are valued from the rates in the store, which live
+  // updates keep current
+  const normalizeStXTZ = (calls: StXTZResponse[]) =>
+    worker().run('liveOperations', { calls, rates: store.get().data.rates ?? [] });
+
+  liveConnection = startLiveUpdates(config, createTzktTransport(config), normalizeStXTZ, {
+    onBakeryOperations(baker, incoming) {
+      const operations = assignCycles(incoming, store.get().data.cycles ?? []);
+      updateData(store, current => {
+        if (baker === config.baker) return current.bakeryOps ? { bakeryOps: mergeOperations(current.bakeryOps, operations) } : {};
+        if (!current.comparisonOps?.has(baker)) return {};
+        return { comparisonOps: new Map(current.comparisonOps).set(baker, mergeOperations(current.comparisonOps.get(baker)!, operations)) };
+      });
+      console.log(`Live: ${operations.length} new staking operations for ${baker}`);
+    },
+    onStXTZOperations(incoming) {
+      const operations = assignCycles(incoming, store.get().data.cycles ?? []);
+      updateData(store, current => current.stxtzOps && current.rates ? {
+        stxtzOps: mergeOperations(current.stxtzOps, operations),
+        rates: buildRateHistory(current.rates, ratePointsFromOperations(operations))
+      } : {});
+      runAlerts(store, true);
+      // Their stXTZ balance changed - re-fetch transfers on the next wallet page render
+      store.set(state => {
+        const walletTransfers = new Map(state.walletTransfers);
+        operations.forEach(op => op.sender && walletTransfers.delete(op.sender));
+        return { walletTransfers };
+      });
+      console.log(`Live: ${operations.length} new stXTZ operations`);
+    },
+    onReorg(level) {
+      // Drop everything above the new head; the next events re-deliver the valid branch
+      const keep = (op: { level: number }) => op.level <= level;
+      updateData(store, data => ({
+        ...(data.bakeryOps && { bakeryOps: data.bakeryOps.filter(keep) }),
+        ...(data.stxtzOps && { stxtzOps: data.stxtzOps.filter(keep) }),
+        ...(data.comparisonOps && { comparisonOps: new Map(Array.from(data.comparisonOps, ([baker, ops]) => [baker, ops.filter(keep)])) }),
+        ...(data.rates && { rates: data.rates.filter(keep) }),
+        ...(data.transfers && { transfers: data.transfers.filter(keep) }),
+        ...(data.dexPrices && { dexPrices: data.dexPrices.filter(keep) })
+      }));
+      console.log(`Live: chain reorganized to level ${level}`);
+    },
+    async onReconnect() {
+      // Events may have been missed while disconnected - catch up via incremental sync
+      catchUpController?.abort();
+      const controller = new AbortController();
+      catchUpController = controller;
+      try {
+        await loadDashboard(store, controller.signal, true);
+      } finally {
+        if (catchUpController === controller) catchUpController = null;
+      }
+    },
+    onStatus: live => store.set({ live })
+  });
+}
+
+export function stopLiveMode(store: Store<AppState>) {
+  catchUpController?.abort();
+  liveConnection?.close();
+  liveConnection = null;
+  store.set({ live: 'closed' });
+}
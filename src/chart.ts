@@ -1,186 +1,121 @@
 import { Chart, registerables } from 'chart.js';
-import type { StakingOperation } from './api';
+import type { ChartDataset } from 'chart.js';
+import { ratio, toTez } from './amounts';
+import type { ChartData } from './chartData';
+import { dailyRateSeries, rollingYield } from './rates';
+import type { RateHistory } from './rates';
+import type { BalancePoint } from './wallet';
+import type { ReconciliationPoint } from './reconciliation';
+import type { HealthSnapshot } from './health';
+import type { ConcentrationPoint } from './concentration';
+import type { DexPricePoint } from './dex';
 
 // Register Chart.js components
 Chart.register(...registerables);
 
-export interface ChartData {
-  labels: string[];
-  bakeryStakes: number[];
-  bakeryUnstakes: number[];
-  stxtzDeposits: number[];
-  stxtzWithdrawals: number[];
-  bakeryBalance: number[];
-  stxtzBalance: number[];
-  bakeryFinalize: number[];
-  stxtzFinalize: number[];
-}
+// Line colors for comparison bakers (cycled if there are more bakers than colors)
+const COMPARISON_COLORS = [
+  '180, 120, 255',
+  '80, 220, 140',
+  '255, 90, 180',
+  '230, 220, 80',
+  '120, 140, 255',
+  '255, 120, 60'
+];
 
-// Process operations into chart-friendly data (aggregated by day)
-export function processChartData(bakeryOps: StakingOperation[], stxtzOps: StakingOperation[]): ChartData {
-  // Combine all timestamps to get the full date range
-  const allOps = [...bakeryOps, ...stxtzOps].filter(op => op.timestamp && op.type !== 'finalize');
-  const sorted = allOps.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
-  
-  // Get all unique dates
-  const allDates = new Set<string>();
-  sorted.forEach(op => allDates.add(op.timestamp.split('T')[0]));
-  const sortedDates = Array.from(allDates).sort();
-  
-  // Initialize data maps
-  const dailyData = new Map<string, {
-    bakeryStake: number;
-    bakeryUnstake: number;
-    bakeryFinalize: number;
-    stxtzDeposit: number;
-    stxtzWithdraw: number;
-    stxtzFinalize: number;
-  }>();
-  
-  sortedDates.forEach(date => {
-    dailyData.set(date, { 
-      bakeryStake: 0, bakeryUnstake: 0, bakeryFinalize: 0,
-      stxtzDeposit: 0, stxtzWithdraw: 0, stxtzFinalize: 0 
-    });
-  });
-  
-  // Aggregate bakery operations (all types including finalize)
-  bakeryOps.filter(op => op.timestamp).forEach(op => {
-    const date = op.timestamp.split('T')[0];
-    const existing = dailyData.get(date);
-    if (existing) {
-      if (op.type === 'stake') {
-        existing.bakeryStake += op.amount;
-      } else if (op.type === 'unstake') {
-        existing.bakeryUnstake += op.amount;
-      } else if (op.type === 'finalize') {
-        existing.bakeryFinalize += op.amount;
-      }
-    }
-  });
-  
-  // Aggregate stXTZ operations (all types including finalize)
-  stxtzOps.filter(op => op.timestamp).forEach(op => {
-    const date = op.timestamp.split('T')[0];
-    const existing = dailyData.get(date);
-    if (existing) {
-      if (op.type === 'stake') {
-        existing.stxtzDeposit += op.amount;
-      } else if (op.type === 'unstake') {
-        existing.stxtzWithdraw += op.amount;
-      } else if (op.type === 'finalize') {
-        existing.stxtzFinalize += op.amount;
-      }
-    }
+// Build the bar + balance line datasets for the staking chart
+function buildStakingDatasets(data: ChartData, bakerNames: Record<string, string>): ChartDataset<'bar', number[]>[] {
+  const comparisonDatasets = data.comparisonBalances.map((series, index) => {
+    const color = COMPARISON_COLORS[index % COMPARISON_COLORS.length];
+    return {
+      label: `${bakerNames[series.baker] ?? series.baker} Balance`,
+      data: series.balance,
+      type: 'line' as const,
+      borderColor: `rgba(${color}, 1)`,
+      backgroundColor: `rgba(${color}, 0.1)`,
+      borderWidth: 2,
+      borderDash: [4, 3],
+      fill: false,
+      tension: 0.2,
+      pointRadius: 0,
+      pointHoverRadius: 4,
+      yAxisID: 'yBalance'
+    };
   });
   
-  const labels: string[] = [];
-  const bakeryStakes: number[] = [];
-  const bakeryUnstakes: number[] = [];
-  const stxtzDeposits: number[] = [];
-  const stxtzWithdrawals: number[] = [];
-  const bakeryBalance: number[] = [];
-  const stxtzBalance: number[] = [];
-  const bakeryFinalize: number[] = [];
-  const stxtzFinalize: number[] = [];
-  
-  let runningBakeryBalance = 0;
-  let runningStxtzBalance = 0;
-  
-  sortedDates.forEach(date => {
-    const data = dailyData.get(date)!;
-    labels.push(date);
-    bakeryStakes.push(data.bakeryStake);
-    bakeryUnstakes.push(data.bakeryUnstake);
-    bakeryFinalize.push(data.bakeryFinalize);
-    stxtzDeposits.push(data.stxtzDeposit);
-    stxtzWithdrawals.push(data.stxtzWithdraw);
-    stxtzFinalize.push(data.stxtzFinalize);
-    
-    // Calculate cumulative balances: stake - finalize (actual withdrawn funds)
-    // Unstake is like a pending withdrawal request, finalize is when funds actually leave
-    runningBakeryBalance += data.bakeryStake - data.bakeryFinalize;
-    runningStxtzBalance += data.stxtzDeposit - data.stxtzFinalize;
-    bakeryBalance.push(runningBakeryBalance);
-    stxtzBalance.push(runningStxtzBalance);
-  });
-  
-  return { 
-    labels, 
-    bakeryStakes, bakeryUnstakes, bakeryFinalize,
-    stxtzDeposits, stxtzWithdrawals, stxtzFinalize,
-    bakeryBalance, stxtzBalance 
-  };
+  return [
+    {
+      label: 'Bakery Stakes',
+      data: data.bakeryStakes,
+      backgroundColor: 'rgba(74, 158, 255, 0.7)',
+      borderColor: 'rgba(74, 158, 255, 1)',
+      borderWidth: 1,
+      yAxisID: 'y'
+    },
+    {
+      label: 'Bakery Unstakes',
+      data: data.bakeryUnstakes,
+      backgroundColor: 'rgba(255, 100, 100, 0.7)',
+      borderColor: 'rgba(255, 100, 100, 1)',
+      borderWidth: 1,
+      yAxisID: 'y'
+    },
+    {
+      label: 'Stacy.fi Deposits',
+      data: data.stxtzDeposits,
+      backgroundColor: 'rgba(160, 160, 160, 0.7)',
+      borderColor: 'rgba(160, 160, 160, 1)',
+      borderWidth: 1,
+      yAxisID: 'y'
+    },
+    {
+      label: 'Stacy.fi Withdrawals',
+      data: data.stxtzWithdrawals,
+      backgroundColor: 'rgba(255, 150, 150, 0.7)',
+      borderColor: 'rgba(255, 150, 150, 1)',
+      borderWidth: 1,
+      yAxisID: 'y'
+    },
+    {
+      label: 'Stacy.fi Balance',
+      data: data.stxtzBalance,
+      type: 'line',
+      borderColor: 'rgba(255, 165, 0, 1)',
+      backgroundColor: 'rgba(255, 165, 0, 0.1)',
+      borderWidth: 2,
+      fill: false,
+      tension: 0.2,
+      pointRadius: 0,
+      pointHoverRadius: 4,
+      yAxisID: 'yBalance'
+    },
+    {
+      label: 'Bakery Balance',
+      data: data.bakeryBalance,
+      type: 'line',
+      borderColor: 'rgba(74, 200, 255, 1)',
+      backgroundColor: 'rgba(74, 200, 255, 0.1)',
+      borderWidth: 2,
+      fill: false,
+      tension: 0.2,
+      pointRadius: 0,
+      pointHoverRadius: 4,
+      yAxisID: 'yBalance'
+    },
+    ...comparisonDatasets
+  ] as ChartDataset<'bar', number[]>[];
 }
 
 // Create the staking chart
-export function createStakingChart(canvasId: string, data: ChartData): Chart {
+// bakerNames maps comparison baker addresses to display names for the legend
+export function createStakingChart(canvasId: string, data: ChartData, bakerNames: Record<string, string> = {}): Chart {
   const ctx = document.getElementById(canvasId) as HTMLCanvasElement;
   
   return new Chart(ctx, {
     type: 'bar',
     data: {
       labels: data.labels,
-      datasets: [
-        {
-          label: 'Bakery Stakes',
-          data: data.bakeryStakes,
-          backgroundColor: 'rgba(74, 158, 255, 0.7)',
-          borderColor: 'rgba(74, 158, 255, 1)',
-          borderWidth: 1,
-          yAxisID: 'y'
-        },
-        {
-          label: 'Bakery Unstakes',
-          data: data.bakeryUnstakes,
-          backgroundColor: 'rgba(255, 100, 100, 0.7)',
-          borderColor: 'rgba(255, 100, 100, 1)',
-          borderWidth: 1,
-          yAxisID: 'y'
-        },
-        {
-          label: 'Stacy.fi Deposits',
-          data: data.stxtzDeposits,
-          backgroundColor: 'rgba(160, 160, 160, 0.7)',
-          borderColor: 'rgba(160, 160, 160, 1)',
-          borderWidth: 1,
-          yAxisID: 'y'
-        },
-        {
-          label: 'Stacy.fi Withdrawals',
-          data: data.stxtzWithdrawals,
-          backgroundColor: 'rgba(255, 150, 150, 0.7)',
-          borderColor: 'rgba(255, 150, 150, 1)',
-          borderWidth: 1,
-          yAxisID: 'y'
-        },
-        {
-          label: 'Stacy.fi Balance',
-          data: data.stxtzBalance,
-          type: 'line',
-          borderColor: 'rgba(255, 165, 0, 1)',
-          backgroundColor: 'rgba(255, 165, 0, 0.1)',
-          borderWidth: 2,
-          fill: false,
-          tension: 0.2,
-          pointRadius: 0,
-          pointHoverRadius: 4,
-          yAxisID: 'yBalance'
-        },
-        {
-          label: 'Bakery Balance',
-          data: data.bakeryBalance,
-          type: 'line',
-          borderColor: 'rgba(74, 200, 255, 1)',
-          backgroundColor: 'rgba(74, 200, 255, 0.1)',
-          borderWidth: 2,
-          fill: false,
-          tension: 0.2,
-          pointRadius: 0,
-          pointHoverRadius: 4,
-          yAxisID: 'yBalance'
-        }
-      ]
+      datasets: buildStakingDatasets(data, bakerNames)
     },
     options: {
       responsive: true,
@@ -266,3 +201,626 @@ export function createStakingChart(canvasId: string, data: ChartData): Chart {
     }
   });
 }
+
+// Refresh an existing staking chart with new data without re-creating it
+// Datasets are matched by label so legend toggles survive the update
+export function updateStakingChart(chart: Chart, data: ChartData, bakerNames: Record<string, string> = {}): void {
+  const existing = new Map(chart.data.datasets.map(dataset => [dataset.label, dataset]));
+  
+  chart.data.labels = data.labels;
+  chart.data.datasets = buildStakingDatasets(data, bakerNames).map(dataset => {
+    const current = existing.get(dataset.label);
+    if (!current) return dataset;
+    current.data = dataset.data;
+    return current;
+  });
+  chart.update('none');
+}
+
+// Exchange rate and trailing yield, one point per day
+export interface RateChartData {
+  labels: string[];
+  rate: number[];
+  apy7d: (number | null)[];  // in percent
+  apy30d: (number | null)[]; // in percent
+  dexPrice: (number | null)[]; // volume-weighted swap price, null on days without swaps
+}
+
+export function processRateChartData(history: RateHistory, dexPrices: DexPricePoint[] = []): RateChartData {
+  const series = dailyRateSeries(history);
+  const toPercent = (value: number | null) => value === null ? null : value * 100;
+  
+  // Daily VWAP: XTZ traded / stXTZ traded
+  const volumes = new Map<string, { xtz: bigint; stxtz: bigint }>();
+  for (const point of dexPrices) {
+    const date = point.timestamp.split('T')[0];
+    const volume = volumes.get(date) ?? { xtz: 0n, stxtz: 0n };
+    volume.xtz += point.xtzAmount;
+    volume.stxtz += point.stxtzAmount;
+    volumes.set(date, volume);
+  }
+  
+  return {
+    labels: series.map(day => day.date),
+    rate: series.map(day => day.rate),
+    apy7d: rollingYield(series, 7).map(toPercent),
+    apy30d: rollingYield(series, 30).map(toPercent),
+    dexPrice: series.map(day => {
+      const volume = volumes.get(day.date);
+      return volume ? ratio(volume.xtz, volume.stxtz) : null;
+    })
+  };
+}
+
+function buildRateDatasets(data: RateChartData): ChartDataset<'line', (number | null)[]>[] {
+  return [
+    {
+      label: 'stXTZ → XTZ Rate',
+      data: data.rate,
+      borderColor: 'rgba(255, 165, 0, 1)',
+      backgroundColor: 'rgba(255, 165, 0, 0.1)',
+      borderWidth: 2,
+      fill: true,
+      tension: 0.2,
+      pointRadius: 0,
+      pointHoverRadius: 4,
+      yAxisID: 'yRate'
+    },
+    {
+      label: 'DEX Price',
+      data: data.dexPrice,
+      borderColor: 'rgba(200, 120, 255, 1)',
+      backgroundColor: 'rgba(200, 120, 255, 1)',
+      borderWidth: 0,
+      showLine: false,
+      fill: false,
+      pointRadius: 2,
+      pointHoverRadius: 4,
+      yAxisID: 'yRate'
+    },
+    {
+      label: '7-day APY',
+      data: data.apy7d,
+      borderColor: 'rgba(74, 158, 255, 0.8)',
+      borderWidth: 1,
+      fill: false,
+      tension: 0.2,
+      pointRadius: 0,
+      pointHoverRadius: 4,
+      spanGaps: false,
+      yAxisID: 'yApy'
+    },
+    {
+      label: '30-day APY',
+      data: data.apy30d,
+      borderColor: 'rgba(74, 200, 255, 1)',
+      borderWidth: 2,
+      fill: false,
+      tension: 0.2,
+      pointRadius: 0,
+      pointHoverRadius: 4,
+      spanGaps: false,
+      yAxisID: 'yApy'
+    }
+  ];
+}
+
+// Create the exchange rate / APY chart
+export function createRateChart(canvasId: string, data: RateChartData): Chart {
+  const ctx = document.getElementById(canvasId) as HTMLCanvasElement;
+  
+  return new Chart(ctx, {
+    type: 'line',
+    data: {
+      labels: data.labels,
+      datasets: buildRateDatasets(data)
+    },
+    options: {
+      responsive: true,
+      maintainAspectRatio: false,
+      interaction: {
+        mode: 'index',
+        intersect: false
+      },
+      plugins: {
+        legend: {
+          position: 'top',
+          labels: {
+            color: '#808080',
+            font: { size: 11 },
+            boxWidth: 12,
+            padding: 12
+          }
+        },
+        tooltip: {
+          callbacks: {
+            label: (context) => {
+              const value = context.raw as number | null;
+              if (value === null) return `${context.dataset.label}: n/a`;
+              return context.dataset.yAxisID === 'yApy'
+                ? `${context.dataset.label}: ${value.toFixed(2)}%`
+                : `${context.dataset.label}: ${value.toFixed(6)} ꜩ`;
+            }
+          }
+        }
+      },
+      scales: {
+        x: {
+          ticks: {
+            color: '#555',
+            font: { size: 10 },
+            maxRotation: 45
+          },
+          grid: {
+            color: 'rgba(255, 255, 255, 0.03)'
+          }
+        },
+        yRate: {
+          type: 'linear',
+          position: 'left',
+          ticks: {
+            color: '#888',
+            font: { size: 10 },
+            callback: (value) => Number(value).toFixed(4)
+          },
+          grid: {
+            color: 'rgba(255, 255, 255, 0.03)'
+          }
+        },
+        yApy: {
+          type: 'linear',
+          position: 'right',
+          ticks: {
+            color: '#555',
+            font: { size: 10 },
+            callback: (value) => `${Number(value).toFixed(1)}%`
+          },
+          grid: {
+            drawOnChartArea: false
+          }
+        }
+      }
+    }
+  });
+}
+
+// Refresh an existing rate chart with new data without re-creating it
+export function updateRateChart(chart: Chart, data: RateChartData): void {
+  const next = buildRateDatasets(data);
+  chart.data.labels = data.labels;
+  chart.data.datasets.forEach((dataset, index) => {
+    dataset.data = next[index].data;
+  });
+  chart.update('none');
+}
+
+// Create a wallet's stXTZ balance history chart (stepped: balance only changes on transfers)
+export function createBalanceChart(canvasId: string, points: BalancePoint[]): Chart {
+  const ctx = document.getElementById(canvasId) as HTMLCanvasElement;
+  
+  return new Chart(ctx, {
+    type: 'line',
+    data: {
+      labels: points.map(point => point.timestamp.split('T')[0]),
+      datasets: [
+        {
+          label: 'stXTZ Balance',
+          data: points.map(point => toTez(point.balance)),
+          borderColor: 'rgba(255, 165, 0, 1)',
+          backgroundColor: 'rgba(255, 165, 0, 0.1)',
+          borderWidth: 2,
+          fill: true,
+          stepped: true,
+          pointRadius: 0,
+          pointHoverRadius: 4
+        }
+      ]
+    },
+    options: {
+      responsive: true,
+      maintainAspectRatio: false,
+      plugins: {
+        legend: {
+          display: false
+        },
+        tooltip: {
+          callbacks: {
+            label: (context) => `${(context.raw as number).toLocaleString('en-US', { maximumFractionDigits: 2 })} stXTZ`
+          }
+        }
+      },
+      scales: {
+        x: {
+          ticks: {
+            color: '#555',
+            font: { size: 10 },
+            maxRotation: 45
+          },
+          grid: {
+            color: 'rgba(255, 255, 255, 0.03)'
+          }
+        },
+        y: {
+          beginAtZero: true,
+          ticks: {
+            color: '#555',
+            font: { size: 10 }
+          },
+          grid: {
+            color: 'rgba(255, 255, 255, 0.03)'
+          }
+        }
+      }
+    }
+  });
+}
+
+// Actual vs derived baker balance per cycle, with rewards as bars
+function buildReconciliationDatasets(points: ReconciliationPoint[]): ChartDataset<'bar', (number | null)[]>[] {
+  return [
+    {
+      label: 'Actual Staked (TzKT)',
+      data: points.map(point => point.actual === null ? null : toTez(point.actual)),
+      type: 'line',
+      borderColor: 'rgba(74, 200, 255, 1)',
+      backgroundColor: 'rgba(74, 200, 255, 0.1)',
+      borderWidth: 2,
+      fill: false,
+      tension: 0.2,
+      pointRadius: 0,
+      pointHoverRadius: 4,
+      spanGaps: true,
+      yAxisID: 'yBalance'
+    },
+    {
+      label: 'Derived (stake - finalize)',
+      data: points.map(point => toTez(point.derived)),
+      type: 'line',
+      borderColor: 'rgba(255, 165, 0, 1)',
+      backgroundColor: 'rgba(255, 165, 0, 0.1)',
+      borderWidth: 2,
+      borderDash: [4, 3],
+      fill: false,
+      tension: 0.2,
+      pointRadius: 0,
+      pointHoverRadius: 4,
+      yAxisID: 'yBalance'
+    },
+    {
+      label: 'Rewards',
+      data: points.map(point => toTez(point.rewards)),
+      backgroundColor: 'rgba(80, 220, 140, 0.6)',
+      borderColor: 'rgba(80, 220, 140, 1)',
+      borderWidth: 1,
+      yAxisID: 'yRewards'
+    }
+  ] as ChartDataset<'bar', (number | null)[]>[];
+}
+
+// Create the baker balance reconciliation chart
+export function createReconciliationChart(canvasId: string, points: ReconciliationPoint[]): Chart {
+  const ctx = document.getElementById(canvasId) as HTMLCanvasElement;
+  
+  return new Chart(ctx, {
+    type: 'bar',
+    data: {
+      labels: points.map(point => `Cycle ${point.cycle}`),
+      datasets: buildReconciliationDatasets(points)
+    },
+    options: {
+      responsive: true,
+      maintainAspectRatio: false,
+      interaction: {
+        mode: 'index',
+        intersect: false
+      },
+      plugins: {
+        legend: {
+          position: 'top',
+          labels: {
+            color: '#808080',
+            font: { size: 11 },
+            boxWidth: 12,
+            padding: 12
+          }
+        },
+        tooltip: {
+          callbacks: {
+            label: (context) => {
+              const value = context.raw as number | null;
+              if (value === null) return `${context.dataset.label}: n/a`;
+              return `${context.dataset.label}: ${value.toLocaleString('en-US', { maximumFractionDigits: 0 })} ꜩ`;
+            }
+          }
+        }
+      },
+      scales: {
+        x: {
+          ticks: {
+            color: '#555',
+            font: { size: 10 },
+            maxRotation: 45
+          },
+          grid: {
+            color: 'rgba(255, 255, 255, 0.03)'
+          }
+        },
+        yBalance: {
+          type: 'linear',
+          position: 'left',
+          beginAtZero: true,
+          ticks: {
+            color: '#888',
+            font: { size: 10 },
+            callback: (value) => {
+              const num = Number(value);
+              if (Math.abs(num) >= 1000000) {
+                return `${(num / 1000000).toFixed(1)}M`;
+              } else if (Math.abs(num) >= 1000) {
+                return `${(num / 1000).toFixed(0)}K`;
+              }
+              return num.toString();
+            }
+          },
+          grid: {
+            color: 'rgba(255, 255, 255, 0.03)'
+          }
+        },
+        yRewards: {
+          type: 'linear',
+          position: 'right',
+          beginAtZero: true,
+          ticks: {
+            color: '#555',
+            font: { size: 10 }
+          },
+          grid: {
+            drawOnChartArea: false
+          }
+        }
+      }
+    }
+  });
+}
+
+// Refresh the reconciliation chart in place
+export function updateReconciliationChart(chart: Chart, points: ReconciliationPoint[]): void {
+  const next = buildReconciliationDatasets(points);
+  chart.data.labels = points.map(point => `Cycle ${point.cycle}`);
+  chart.data.datasets.forEach((dataset, index) => {
+    dataset.data = next[index].data;
+  });
+  chart.update('none');
+}
+
+// Collateralization ratio (in percent) with the alert threshold as a flat line
+function buildHealthDatasets(history: HealthSnapshot[], threshold: number): ChartDataset<'line', (number | null)[]>[] {
+  return [
+    {
+      label: 'Collateralization',
+      data: history.map(snapshot => snapshot.ratio === null ? null : snapshot.ratio * 100),
+      borderColor: 'rgba(80, 220, 140, 1)',
+      backgroundColor: 'rgba(80, 220, 140, 0.1)',
+      borderWidth: 2,
+      fill: false,
+      tension: 0.2,
+      pointRadius: 0,
+      pointHoverRadius: 4,
+      spanGaps: true
+    },
+    {
+      label: 'Threshold',
+      data: history.map(() => threshold * 100),
+      borderColor: 'rgba(255, 100, 100, 0.8)',
+      borderWidth: 1,
+      borderDash: [4, 3],
+      fill: false,
+      pointRadius: 0,
+      pointHoverRadius: 0
+    }
+  ];
+}
+
+// Create the collateralization ratio chart
+export function createHealthChart(canvasId: string, history: HealthSnapshot[], threshold: number): Chart {
+  const ctx = document.getElementById(canvasId) as HTMLCanvasElement;
+  
+  return new Chart(ctx, {
+    type: 'line',
+    data: {
+      labels: history.map(snapshot => snapshot.timestamp.split('T')[0]),
+      datasets: buildHealthDatasets(history, threshold)
+    },
+    options: {
+      responsive: true,
+      maintainAspectRatio: false,
+      interaction: {
+        mode: 'index',
+        intersect: false
+      },
+      plugins: {
+        legend: {
+          position: 'top',
+          labels: {
+            color: '#808080',
+            font: { size: 11 },
+            boxWidth: 12,
+            padding: 12
+          }
+        },
+        tooltip: {
+          callbacks: {
+            label: (context) => {
+              const value = context.raw as number | null;
+              return `${context.dataset.label}: ${value === null ? 'n/a' : `${value.toFixed(2)}%`}`;
+            }
+          }
+        }
+      },
+      scales: {
+        x: {
+          ticks: {
+            color: '#555',
+            font: { size: 10 },
+            maxRotation: 45
+          },
+          grid: {
+            color: 'rgba(255, 255, 255, 0.03)'
+          }
+        },
+        y: {
+          ticks: {
+            color: '#888',
+            font: { size: 10 },
+            callback: (value) => `${Number(value).toFixed(1)}%`
+          },
+          grid: {
+            color: 'rgba(255, 255, 255, 0.03)'
+          }
+        }
+      }
+    }
+  });
+}
+
+// Refresh the collateralization chart in place
+export function updateHealthChart(chart: Chart, history: HealthSnapshot[], threshold: number): void {
+  const next = buildHealthDatasets(history, threshold);
+  chart.data.labels = history.map(snapshot => snapshot.timestamp.split('T')[0]);
+  chart.data.datasets.forEach((dataset, index) => {
+    dataset.data = next[index].data;
+  });
+  chart.update('none');
+}
+
+// Gini and top-holder shares (in percent) with the Nakamoto coefficient on its own axis
+function buildConcentrationDatasets(points: ConcentrationPoint[]): ChartDataset<'line', number[]>[] {
+  return [
+    {
+      label: 'Gini',
+      data: points.map(point => point.gini * 100),
+      borderColor: 'rgba(255, 165, 0, 1)',
+      borderWidth: 2,
+      fill: false,
+      tension: 0.2,
+      pointRadius: 0,
+      pointHoverRadius: 4,
+      yAxisID: 'yShare'
+    },
+    {
+      label: 'Top 10 Share',
+      data: points.map(point => point.top10Share * 100),
+      borderColor: 'rgba(255, 100, 100, 1)',
+      borderWidth: 2,
+      fill: false,
+      tension: 0.2,
+      pointRadius: 0,
+      pointHoverRadius: 4,
+      yAxisID: 'yShare'
+    },
+    {
+      label: 'Top 100 Share',
+      data: points.map(point => point.top100Share * 100),
+      borderColor: 'rgba(74, 158, 255, 1)',
+      borderWidth: 2,
+      fill: false,
+      tension: 0.2,
+      pointRadius: 0,
+      pointHoverRadius: 4,
+      yAxisID: 'yShare'
+    },
+    {
+      label: 'Nakamoto Coefficient',
+      data: points.map(point => point.nakamoto),
+      borderColor: 'rgba(80, 220, 140, 1)',
+      borderWidth: 1,
+      borderDash: [4, 3],
+      fill: false,
+      stepped: true,
+      pointRadius: 0,
+      pointHoverRadius: 4,
+      yAxisID: 'yCount'
+    }
+  ];
+}
+
+// Create the holder concentration chart
+export function createConcentrationChart(canvasId: string, points: ConcentrationPoint[]): Chart {
+  const ctx = document.getElementById(canvasId) as HTMLCanvasElement;
+  
+  return new Chart(ctx, {
+    type: 'line',
+    data: {
+      labels: points.map(point => point.date),
+      datasets: buildConcentrationDatasets(points)
+    },
+    options: {
+      responsive: true,
+      maintainAspectRatio: false,
+      interaction: {
+        mode: 'index',
+        intersect: false
+      },
+      plugins: {
+        legend: {
+          position: 'top',
+          labels: {
+            color: '#808080',
+            font: { size: 11 },
+            boxWidth: 12,
+            padding: 12
+          }
+        },
+        tooltip: {
+          callbacks: {
+            label: (context) => {
+              const value = context.raw as number;
+              return context.dataset.yAxisID === 'yCount'
+                ? `${context.dataset.label}: ${value}`
+                : `${context.dataset.label}: ${value.toFixed(1)}%`;
+            }
+          }
+        }
+      },
+      scales: {
+        x: {
+          ticks: {
+            color: '#555',
+            font: { size: 10 },
+            maxRotation: 45
+          },
+          grid: {
+            color: 'rgba(255, 255, 255, 0.03)'
+          }
+        },
+        yShare: {
+          type: 'linear',
+          position: 'left',
+          min: 0,
+          max: 100,
+          ticks: {
+            color: '#888',
+            font: { size: 10 },
+            callback: (value) => `${value}%`
+          },
+          grid: {
+            color: 'rgba(255, 255, 255, 0.03)'
+          }
+        },
+        yCount: {
+          type: 'linear',
+          position: 'right',
+          beginAtZero: true,
+          ticks: {
+            color: '#555',
+            font: { size: 10 },
+            precision: 0
+          },
+          grid: {
+            drawOnChartArea: false
+          }
+        }
+      }
+    }
+  });
+}
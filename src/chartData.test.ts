@@ -0,0 +1,67 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { processChartData } from './chartData';
+import { loadTestData } from './testData';
+import type { TestData } from './testData';
+
+let data: TestData;
+
+beforeAll(async () => {
+  ({ data } = await loadTestData());
+});
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+describe('processChartData', () => {
+  it('buckets the whole history by day', () => {
+    const chart = processChartData(data.bakeryOps, data.stxtzOps);
+    expect(chart.labels).toEqual([
+      '2025-01-03', '2025-01-04', '2025-01-05', '2025-01-06', '2025-01-07', '2025-01-10', '2025-01-14',
+      '2025-01-20', '2025-01-23', '2025-01-28', '2025-01-29', '2025-02-01', '2025-02-08'
+    ]);
+    expect(sum(chart.bakeryStakes)).toBeCloseTo(272_200, 6);
+    expect(sum(chart.bakeryFinalize)).toBeCloseTo(45_424.999998, 6);
+    // Two deposits on 2025-01-05
+    expect(chart.stxtzDeposits[2]).toBe(158_000);
+  });
+
+  it('keeps a stake - finalize running balance', () => {
+    const chart = processChartData(data.bakeryOps, data.stxtzOps);
+    expect(chart.bakeryBalance.at(-1)).toBeCloseTo(226_775.000002, 6);
+    expect(chart.stxtzBalance).toEqual(chart.bakeryBalance);
+    // Withdrawal requests do not lower the balance, their finalization does
+    expect(chart.bakeryBalance[6]).toBe(chart.bakeryBalance[5]);
+  });
+
+  it('carries the balance before the window into it', () => {
+    const chart = processChartData(data.bakeryOps, data.stxtzOps, new Map(), { from: '2025-01-20', to: '2025-01-29', granularity: 'day' });
+    expect(chart.labels).toEqual(['2025-01-20', '2025-01-23', '2025-01-28', '2025-01-29']);
+    expect(chart.bakeryBalance[0]).toBe(263_000);
+    expect(chart.bakeryUnstakes[0]).toBeCloseTo(5_064.999999, 6);
+  });
+
+  it('labels weeks by their Monday and cycles by index', () => {
+    const weeks = processChartData(data.bakeryOps, data.stxtzOps, new Map(), { from: null, to: null, granularity: 'week' });
+    expect(weeks.labels[0]).toBe('Week of 2024-12-30');
+    expect(sum(weeks.bakeryStakes)).toBeCloseTo(272_200, 6);
+
+    const cycles = processChartData(data.bakeryOps, data.stxtzOps, new Map(), { from: null, to: null, granularity: 'cycle' }, data.cycles);
+    expect(cycles.labels[0]).toBe('Cycle 1');
+    expect(cycles.bakeryBalance.at(-1)).toBeCloseTo(226_775.000002, 6);
+  });
+
+  it('aligns compared bakers with the labels', () => {
+    const compared = data.bakeryOps.filter(op => op.timestamp >= '2025-01-20');
+    const chart = processChartData(data.bakeryOps, data.stxtzOps, new Map([['tz1other', compared]]));
+    const [series] = chart.comparisonBalances;
+    expect(series.baker).toBe('tz1other');
+    expect(series.balance).toHaveLength(chart.labels.length);
+    expect(series.balance[0]).toBe(0);
+    expect(series.balance.at(-1)).toBeCloseTo(9_200 - 45_424.999998, 6);
+  });
+
+  it('is empty without operations', () => {
+    const chart = processChartData([], []);
+    expect(chart.labels).toEqual([]);
+    expect(chart.bakeryBalance).toEqual([]);
+  });
+});
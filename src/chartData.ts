@@ -0,0 +1,171 @@
+import type { StakingOperation } from './api';
+import { toTez } from './amounts';
+import { cycleOfLevel } from './cycles';
+import type { CycleInfo } from './cycles';
+
+// Staking chart series, bucketed from the operation streams. Kept apart from chart.ts,
+// which registers Chart.js and needs a DOM, so the pipeline worker can build them.
+
+export interface ChartData {
+  labels: string[];
+  bakeryStakes: number[];
+  bakeryUnstakes: number[];
+  stxtzDeposits: number[];
+  stxtzWithdrawals: number[];
+  bakeryBalance: number[];
+  stxtzBalance: number[];
+  bakeryFinalize: number[];
+  stxtzFinalize: number[];
+  comparisonBalances: BakerBalanceSeries[];
+}
+
+// Cumulative stake - finalize balance of an additional baker, aligned with ChartData.labels
+export interface BakerBalanceSeries {
+  baker: string;
+  balance: number[];
+}
+
+// Time bucket size of the staking chart
+export type Granularity = 'hour' | 'day' | 'week' | 'month' | 'cycle';
+
+// Visible part of the history and how it is bucketed
+export interface ChartWindow {
+  from: string | null; // first day shown (YYYY-MM-DD), null for the start of the history
+  to: string | null;   // last day shown (YYYY-MM-DD), null for the latest operation
+  granularity: Granularity;
+}
+
+export const DEFAULT_CHART_WINDOW: ChartWindow = { from: null, to: null, granularity: 'day' };
+
+const MS_PER_DAY = 86_400_000;
+
+// First day (YYYY-MM-DD) of a window covering the last `days` days up to today
+export function windowStart(days: number, now: number = Date.now()): string {
+  return new Date(now - (days - 1) * MS_PER_DAY).toISOString().split('T')[0];
+}
+
+// Monday (UTC) of the week a timestamp falls in
+function weekStart(timestamp: string): string {
+  const date = new Date(`${timestamp.split('T')[0]}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() - (date.getUTCDay() + 6) % 7);
+  return date.toISOString().split('T')[0];
+}
+
+// Bucket key of an operation. Keys of one granularity sort chronologically as strings;
+// null when the operation's cycle is not known.
+function bucketKey(op: StakingOperation, granularity: Granularity, cycles: CycleInfo[]): string | null {
+  switch (granularity) {
+    case 'hour':
+      return `${op.timestamp.slice(0, 13)}:00`;
+    case 'day':
+      return op.timestamp.split('T')[0];
+    case 'week':
+      return weekStart(op.timestamp);
+    case 'month':
+      return op.timestamp.slice(0, 7);
+    case 'cycle': {
+      const cycle = op.cycle ?? cycleOfLevel(cycles, op.level)?.index;
+      return cycle === undefined ? null : String(cycle).padStart(8, '0');
+    }
+  }
+}
+
+// Axis label of a bucket key
+function bucketLabel(key: string, granularity: Granularity): string {
+  switch (granularity) {
+    case 'hour':
+      return key.replace('T', ' ');
+    case 'week':
+      return `Week of ${key}`;
+    case 'cycle':
+      return `Cycle ${Number(key)}`;
+    default:
+      return key;
+  }
+}
+
+// Per-bucket flows of one operation stream, in mutez
+interface BucketFlows {
+  stake: bigint;
+  unstake: bigint;
+  finalize: bigint;
+}
+
+// Split a stream into the balance carried into the window and per-bucket flows inside it
+function aggregateStream(ops: StakingOperation[], chartWindow: ChartWindow, cycles: CycleInfo[]) {
+  let opening = 0n;
+  const buckets = new Map<string, BucketFlows>();
+  
+  for (const op of ops) {
+    if (!op.timestamp) continue;
+    const day = op.timestamp.split('T')[0];
+    if (chartWindow.to !== null && day > chartWindow.to) continue;
+    
+    // Everything before the window only moves the starting balance: stake - finalize
+    if (chartWindow.from !== null && day < chartWindow.from) {
+      if (op.type === 'stake') opening += op.amount;
+      else if (op.type === 'finalize') opening -= op.amount;
+      continue;
+    }
+    
+    const key = bucketKey(op, chartWindow.granularity, cycles);
+    if (key === null) continue;
+    if (!buckets.has(key)) buckets.set(key, { stake: 0n, unstake: 0n, finalize: 0n });
+    buckets.get(key)![op.type] += op.amount;
+  }
+  
+  return { opening, buckets };
+}
+
+// Cumulative stake - finalize balance at the end of every bucket, starting from the opening balance
+function runningBalance(keys: string[], opening: bigint, buckets: Map<string, BucketFlows>): number[] {
+  let running = opening;
+  return keys.map(key => {
+    const flows = buckets.get(key);
+    if (flows) running += flows.stake - flows.finalize;
+    return toTez(running);
+  });
+}
+
+// Process operations into chart-friendly data, bucketed and limited to the window.
+// comparisonOps holds bakery operations of additional bakers, keyed by baker address;
+// cycles are only needed for cycle granularity on operations without an assigned cycle.
+export function processChartData(
+  bakeryOps: StakingOperation[],
+  stxtzOps: StakingOperation[],
+  comparisonOps: Map<string, StakingOperation[]> = new Map(),
+  chartWindow: ChartWindow = DEFAULT_CHART_WINDOW,
+  cycles: CycleInfo[] = []
+): ChartData {
+  const bakery = aggregateStream(bakeryOps, chartWindow, cycles);
+  const stxtz = aggregateStream(stxtzOps, chartWindow, cycles);
+  const comparison = Array.from(comparisonOps, ([baker, ops]) => ({ baker, ...aggregateStream(ops, chartWindow, cycles) }));
+  
+  // Every bucket with activity in any stream
+  const keys = Array.from(new Set([
+    ...bakery.buckets.keys(),
+    ...stxtz.buckets.keys(),
+    ...comparison.flatMap(stream => Array.from(stream.buckets.keys()))
+  ])).sort();
+  
+  const flows = (buckets: Map<string, BucketFlows>, type: keyof BucketFlows) =>
+    keys.map(key => toTez(buckets.get(key)?.[type] ?? 0n));
+  
+  // Cumulative balances: stake - finalize (actual withdrawn funds)
+  // Unstake is like a pending withdrawal request, finalize is when funds actually leave
+  return {
+    labels: keys.map(key => bucketLabel(key, chartWindow.granularity)),
+    bakeryStakes: flows(bakery.buckets, 'stake'),
+    bakeryUnstakes: flows(bakery.buckets, 'unstake'),
+    bakeryFinalize: flows(bakery.buckets, 'finalize'),
+    stxtzDeposits: flows(stxtz.buckets, 'stake'),
+    stxtzWithdrawals: flows(stxtz.buckets, 'unstake'),
+    stxtzFinalize: flows(stxtz.buckets, 'finalize'),
+    bakeryBalance: runningBalance(keys, bakery.opening, bakery.buckets),
+    stxtzBalance: runningBalance(keys, stxtz.opening, stxtz.buckets),
+    comparisonBalances: comparison.map(stream => ({
+      baker: stream.baker,
+      balance: runningBalance(keys, stream.opening, stream.buckets)
+    }))
+  };
+}
@@ -0,0 +1,113 @@
+import type { TokenTransfer } from './api';
+import { compareMutez, parseMutez, ratio, sumMutez } from './amounts';
+
+// stXTZ holder distribution at past levels, rebuilt by replaying token transfers,
+// and the concentration metrics derived from it.
+
+export interface HolderBalance {
+  address: string;
+  balance: bigint; // stXTZ, in mutez
+}
+
+export interface ConcentrationMetrics {
+  holders: number;
+  supply: bigint;      // stXTZ held by all holders
+  gini: number;        // 0 = perfectly equal, 1 = one holder owns everything
+  nakamoto: number;    // fewest holders that together own more than half the supply
+  top10Share: number;  // fraction of supply held by the 10 largest holders
+  top100Share: number;
+}
+
+export interface ConcentrationPoint extends ConcentrationMetrics {
+  date: string; // YYYY-MM-DD, metrics at the end of that UTC day
+  level: number;
+}
+
+// Apply one transfer to a balance map
+function applyTransfer(balances: Map<string, bigint>, transfer: TokenTransfer) {
+  const amount = parseMutez(transfer.amount);
+  if (transfer.from) {
+    balances.set(transfer.from.address, (balances.get(transfer.from.address) ?? 0n) - amount);
+  }
+  if (transfer.to) {
+    balances.set(transfer.to.address, (balances.get(transfer.to.address) ?? 0n) + amount);
+  }
+}
+
+// Non-zero balances, largest first
+function sortedHolders(balances: Map<string, bigint>): HolderBalance[] {
+  return Array.from(balances, ([address, balance]) => ({ address, balance }))
+    .filter(holder => holder.balance > 0n)
+    .sort((a, b) => compareMutez(b.balance, a.balance));
+}
+
+// Holder distribution at the end of a level (transfers must be sorted by id)
+export function holdersAtLevel(transfers: TokenTransfer[], level: number): HolderBalance[] {
+  const balances = new Map<string, bigint>();
+  for (const transfer of transfers) {
+    if (transfer.level > level) break;
+    applyTransfer(balances, transfer);
+  }
+  return sortedHolders(balances);
+}
+
+// Concentration metrics of a distribution sorted largest first
+export function concentrationMetrics(holders: HolderBalance[]): ConcentrationMetrics {
+  const supply = sumMutez(holders.map(holder => holder.balance));
+  if (holders.length === 0 || supply <= 0n) {
+    return { holders: 0, supply: 0n, gini: 0, nakamoto: 0, top10Share: 0, top100Share: 0 };
+  }
+
+  const share = (count: number) =>
+    ratio(sumMutez(holders.slice(0, count).map(holder => holder.balance)), supply)!;
+
+  // Gini over balances in ascending order: sum((2i - n - 1) * x_i) / (n * sum(x))
+  const n = holders.length;
+  let weighted = 0n;
+  holders.forEach((holder, index) => {
+    const ascendingRank = n - index;
+    weighted += BigInt(2 * ascendingRank - n - 1) * holder.balance;
+  });
+
+  let nakamoto = 0;
+  let cumulative = 0n;
+  while (cumulative * 2n <= supply && nakamoto < n) {
+    cumulative += holders[nakamoto].balance;
+    nakamoto++;
+  }
+
+  return {
+    holders: n,
+    supply,
+    gini: ratio(weighted, BigInt(n) * supply)!,
+    nakamoto,
+    top10Share: share(10),
+    top100Share: share(100)
+  };
+}
+
+// Metrics at the end of every UTC day with transfers (transfers must be sorted by id)
+export function concentrationHistory(transfers: TokenTransfer[]): ConcentrationPoint[] {
+  const balances = new Map<string, bigint>();
+  const points: ConcentrationPoint[] = [];
+
+  transfers.forEach((transfer, index) => {
+    applyTransfer(balances, transfer);
+    const date = transfer.timestamp.split('T')[0];
+    const next = transfers[index + 1];
+    if (next && next.timestamp.startsWith(date)) return;
+    points.push({ date, level: transfer.level, ...concentrationMetrics(sortedHolders(balances)) });
+  });
+
+  return points;
+}
+
+// Last level at or before the end of a UTC day (YYYY-MM-DD), or null if no transfer happened by then
+export function levelAtDate(transfers: TokenTransfer[], date: string): number | null {
+  let level: number | null = null;
+  for (const transfer of transfers) {
+    if (transfer.timestamp.split('T')[0] > date) break;
+    level = transfer.level;
+  }
+  return level;
+}
@@ -0,0 +1,47 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ConfigError, loadConfig } from './config';
+
+const CONFIG_URL = 'https://example.com/config.json';
+
+// Serve `file` as the config file given with ?config=
+function loadWithFile(file: unknown) {
+  vi.stubGlobal('fetch', async () => new Response(JSON.stringify(file), { headers: { 'Content-Type': 'application/json' } }));
+  return loadConfig(`?config=${CONFIG_URL}`);
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('loadConfig alert rules', () => {
+  it('accepts complete rules', async () => {
+    const alertRules = [
+      { id: 'whales', type: 'large-withdrawal', minAmount: 50_000, severity: 'critical' },
+      { id: 'exits', type: 'holder-dump', topHolders: 5, minShareSold: 0.25 }
+    ];
+    expect((await loadWithFile({ alertRules })).alertRules).toEqual(alertRules);
+  });
+
+  it('rejects a rule without its threshold', async () => {
+    const config = loadWithFile({ alertRules: [{ id: 'whales', type: 'large-withdrawal' }] });
+    await expect(config).rejects.toThrow(ConfigError);
+    await expect(config).rejects.toThrow('Alert rule "whales" needs positive numbers for minAmount');
+  });
+
+  it('rejects a rule missing one of several thresholds', async () => {
+    await expect(loadWithFile({ alertRules: [{ id: 'exits', type: 'holder-dump', topHolders: 10 }] }))
+      .rejects.toThrow('needs positive numbers for minShareSold');
+  });
+
+  it('rejects non-positive thresholds and unknown settings', async () => {
+    await expect(loadWithFile({ alertRules: [{ id: 'outflow', type: 'daily-net-outflow', maxShareOfTvl: 0 }] }))
+      .rejects.toThrow('needs positive numbers for maxShareOfTvl');
+    await expect(loadWithFile({ alertRules: [{ id: 'whales', type: 'large-withdrawal', minAmount: 1, minAmout: 2 }] }))
+      .rejects.toThrow('unknown settings: minAmout');
+  });
+
+  it('rejects an unknown severity', async () => {
+    await expect(loadWithFile({ alertRules: [{ id: 'whales', type: 'large-withdrawal', minAmount: 1, severity: 'urgent' }] }))
+      .rejects.toThrow('invalid severity');
+  });
+});
@@ -0,0 +1,220 @@
+// Dashboard configuration - which network, baker, contract and token to track.
+//
+// Resolution order (later wins):
+//   1. Network preset (mainnet defaults to the Stacy.fi baker and stXTZ contract)
+//   2. Optional JSON config file (`config.json` next to index.html, or `?config=<url>`)
+//   3. URL query params: ?network=&tzkt=&baker=&contract=&token=&compare=tz1...,tz1...
+//
+// Alert rules and DEX pools can only be set in the config file (`alertRules`, see alerts.ts,
+// and `dexPools`, see dex.ts).
+
+import { ALERT_RULE_THRESHOLDS, ALERT_RULE_TYPES, ALERT_SEVERITIES, DEFAULT_ALERT_RULES } from './alerts';
+import type { AlertRule } from './alerts';
+import type { DexPool } from './dex';
+
+export interface DashboardConfig {
+  network: string;
+  tzktApiBase: string;  // TzKT API root, without trailing slash or /v1
+  explorerBase: string; // TzKT explorer root used for outbound links
+  baker: string;        // baker address (tz1/tz2/tz3/tz4)
+  contract: string;     // stXTZ liquid-staking contract (KT1)
+  tokenId: string;      // TzKT internal token id of the stXTZ token
+  compareBakers: string[]; // extra bakers shown in the comparison view
+  alertRules: AlertRule[]; // rules evaluated against the stXTZ operation stream
+  dexPools: DexPool[];     // pools trading stXTZ, used to classify token transfers
+}
+
+type NetworkPreset = Pick<DashboardConfig, 'tzktApiBase' | 'explorerBase'> & Partial<DashboardConfig>;
+
+const NETWORK_PRESETS: Record<string, NetworkPreset> = {
+  mainnet: {
+    tzktApiBase: 'https://api.tzkt.io',
+    explorerBase: 'https://tzkt.io',
+    baker: 'tz3W7k9v3uniY1f2HQRKxymJybNvH3FgvZ5N',
+    contract: 'KT1FRN2RmitUkyyovtjRMrU1G9zwKzgESXm8',
+    tokenId: '1763964454174721'
+  },
+  ghostnet: {
+    tzktApiBase: 'https://api.ghostnet.tzkt.io',
+    explorerBase: 'https://ghostnet.tzkt.io'
+  }
+};
+
+const DEFAULT_NETWORK = 'mainnet';
+const DEFAULT_CONFIG_FILE = 'config.json';
+
+// Required keys accepted in the config file / query string
+const QUERY_PARAM_KEYS: Record<string, Exclude<keyof DashboardConfig, 'compareBakers' | 'alertRules' | 'dexPools'>> = {
+  network: 'network',
+  tzkt: 'tzktApiBase',
+  explorer: 'explorerBase',
+  baker: 'baker',
+  contract: 'contract',
+  token: 'tokenId'
+};
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+// Load an optional JSON config file. A missing file is not an error, a malformed one is.
+async function loadConfigFile(url: string, required: boolean): Promise<Partial<DashboardConfig>> {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch {
+    if (required) throw new ConfigError(`Could not load config file ${url}`);
+    return {};
+  }
+
+  if (!response.ok) {
+    if (required) throw new ConfigError(`Could not load config file ${url}: ${response.status}`);
+    return {};
+  }
+
+  // Dev servers answer unknown paths with index.html - treat that as "no file"
+  const contentType = response.headers.get('content-type') ?? '';
+  if (!required && !contentType.includes('json')) return {};
+
+  try {
+    return await response.json();
+  } catch {
+    throw new ConfigError(`Config file ${url} is not valid JSON`);
+  }
+}
+
+// Read overrides from the query string
+function readQueryParams(params: URLSearchParams): Partial<DashboardConfig> {
+  const overrides: Partial<DashboardConfig> = {};
+  for (const [param, key] of Object.entries(QUERY_PARAM_KEYS)) {
+    const value = params.get(param);
+    if (value) overrides[key] = value.trim();
+  }
+  const compare = params.get('compare');
+  if (compare !== null) {
+    overrides.compareBakers = compare.split(',').map(address => address.trim()).filter(Boolean);
+  }
+  return overrides;
+}
+
+export function isBakerAddress(address: string): boolean {
+  return /^tz[1-4][1-9A-HJ-NP-Za-km-z]{33}$/.test(address);
+}
+
+// Check the shape of configured alert rules: every threshold of the rule type is set to a
+// positive number, nothing else is set, and the severity is a known level
+function validateAlertRules(rules: unknown): AlertRule[] {
+  if (!Array.isArray(rules)) {
+    throw new ConfigError('alertRules must be a list of rules');
+  }
+  for (const rule of rules) {
+    if (!rule || typeof rule.id !== 'string' || !ALERT_RULE_TYPES.includes(rule.type)) {
+      throw new ConfigError(`Invalid alert rule: ${JSON.stringify(rule)}`);
+    }
+    if (rule.severity !== undefined && !ALERT_SEVERITIES.includes(rule.severity)) {
+      throw new ConfigError(`Alert rule "${rule.id}" has an invalid severity - use ${ALERT_SEVERITIES.join(', ')}`);
+    }
+    const required: string[] = ALERT_RULE_THRESHOLDS[rule.type as AlertRule['type']];
+    const unknown = Object.keys(rule).filter(key => !['id', 'type', 'severity', ...required].includes(key));
+    if (unknown.length > 0) {
+      throw new ConfigError(`Alert rule "${rule.id}" has unknown settings: ${unknown.join(', ')}`);
+    }
+    const invalid = required.filter(key => typeof rule[key] !== 'number' || !(rule[key] > 0));
+    if (invalid.length > 0) {
+      throw new ConfigError(`Alert rule "${rule.id}" needs positive numbers for ${invalid.join(', ')}`);
+    }
+  }
+  return rules;
+}
+
+// Check that configured DEX pools are named contracts
+function validateDexPools(pools: unknown): DexPool[] {
+  if (!Array.isArray(pools)) {
+    throw new ConfigError('dexPools must be a list of pools');
+  }
+  for (const pool of pools) {
+    if (!pool || typeof pool.name !== 'string' || !/^KT1[1-9A-HJ-NP-Za-km-z]{33}$/.test(pool.address)) {
+      throw new ConfigError(`Invalid DEX pool: ${JSON.stringify(pool)}`);
+    }
+  }
+  return pools;
+}
+
+// Check that every field is present and looks like what TzKT expects
+function validateConfig(config: Partial<DashboardConfig>): DashboardConfig {
+  const missing = Object.values(QUERY_PARAM_KEYS).filter(key => !config[key]);
+  if (missing.length > 0) {
+    throw new ConfigError(`Missing configuration for network "${config.network}": ${missing.join(', ')}`);
+  }
+
+  const valid = config as DashboardConfig;
+  const compareBakers = valid.compareBakers ?? [];
+  if (!Array.isArray(compareBakers)) {
+    throw new ConfigError('compareBakers must be a list of baker addresses');
+  }
+  for (const baker of [valid.baker, ...compareBakers]) {
+    if (!isBakerAddress(baker)) {
+      throw new ConfigError(`Invalid baker address: ${baker}`);
+    }
+  }
+  if (!/^KT1[1-9A-HJ-NP-Za-km-z]{33}$/.test(valid.contract)) {
+    throw new ConfigError(`Invalid contract address: ${valid.contract}`);
+  }
+  if (!/^\d+$/.test(valid.tokenId)) {
+    throw new ConfigError(`Invalid token id: ${valid.tokenId}`);
+  }
+
+  return {
+    ...valid,
+    alertRules: validateAlertRules(valid.alertRules ?? DEFAULT_ALERT_RULES),
+    dexPools: validateDexPools(valid.dexPools ?? []),
+    // The primary baker is always shown; drop it and duplicates from the comparison list
+    compareBakers: [...new Set(compareBakers)].filter(baker => baker !== valid.baker),
+    tzktApiBase: valid.tzktApiBase.replace(/\/+$/, '').replace(/\/v1$/, ''),
+    explorerBase: valid.explorerBase.replace(/\/+$/, '')
+  };
+}
+
+// Resolve the active configuration from presets, config file and URL
+export async function loadConfig(search: string = window.location.search): Promise<DashboardConfig> {
+  const params = new URLSearchParams(search);
+  const configFileParam = params.get('config');
+  const fileConfig = await loadConfigFile(
+    configFileParam ?? `${import.meta.env.BASE_URL}${DEFAULT_CONFIG_FILE}`,
+    configFileParam !== null
+  );
+  const queryConfig = readQueryParams(params);
+
+  const network = queryConfig.network ?? fileConfig.network ?? DEFAULT_NETWORK;
+  const preset = NETWORK_PRESETS[network];
+
+  // Unknown networks are allowed as long as the TzKT endpoints are provided explicitly
+  if (!preset && !(queryConfig.tzktApiBase ?? fileConfig.tzktApiBase)) {
+    throw new ConfigError(`Unknown network "${network}" - provide a TzKT base URL with ?tzkt=`);
+  }
+
+  return validateConfig({
+    ...preset,
+    ...fileConfig,
+    ...queryConfig,
+    network
+  });
+}
+
+// Every baker shown on the dashboard, primary first
+export function allBakers(config: DashboardConfig): string[] {
+  return [config.baker, ...config.compareBakers];
+}
+
+// Helper: TzKT REST endpoint for the configured network
+export function tzktUrl(config: DashboardConfig, path: string): string {
+  return `${config.tzktApiBase}/v1/${path.replace(/^\//, '')}`;
+}
+
+// Helper: link to an account/operation in the TzKT explorer
+export function explorerUrl(config: DashboardConfig, path: string): string {
+  return `${config.explorerBase}/${path}`;
+}
@@ -0,0 +1,131 @@
+import { tzktUrl } from './config';
+import type { DashboardConfig } from './config';
+import { fetchJson } from './http';
+import { isPersistent, readCache, writeCache } from './store';
+import type { FetchOptions, StakingOperation } from './api';
+
+// Tezos cycle boundaries and the protocol timing that staking depends on.
+
+export interface CycleInfo {
+  index: number;
+  firstLevel: number;
+  lastLevel: number;
+  startTime: string;
+  endTime: string;
+}
+
+export interface ProtocolTiming {
+  currentLevel: number;
+  currentCycle: number;
+  // Cycles between a balance snapshot and the cycle whose rights it determines
+  consensusRightsDelay: number;
+  // Cycles between an unstake and the moment it can be finalized
+  unstakeDelayCycles: number;
+}
+
+// Fallbacks matching the current mainnet protocol (consensus_rights_delay + max_slashing_period)
+const DEFAULT_CONSENSUS_RIGHTS_DELAY = 2;
+const DEFAULT_MAX_SLASHING_PERIOD = 2;
+
+interface HeadResponse {
+  level: number;
+  cycle: number;
+}
+
+interface ProtocolResponse {
+  constants: {
+    consensusRightsDelay?: number;
+    preservedCycles?: number; // pre-Paris name of the rights delay
+    maxSlashingPeriod?: number;
+  };
+}
+
+// Cache of finished cycles (one per network). Their boundaries can no longer change,
+// unlike the current and future cycles, which a protocol upgrade may reshape.
+const CYCLE_CACHE_KEY = 'tzkt_cycle_cache';
+
+async function loadCycleCache(config: DashboardConfig): Promise<CycleInfo[]> {
+  if (!isPersistent()) return [];
+  try {
+    return await readCache<CycleInfo[]>(`${CYCLE_CACHE_KEY}:${config.network}`) ?? [];
+  } catch {
+    return [];
+  }
+}
+
+async function saveCycleCache(config: DashboardConfig, cycles: CycleInfo[]): Promise<void> {
+  if (!isPersistent()) return;
+  try {
+    await writeCache(`${CYCLE_CACHE_KEY}:${config.network}`, cycles);
+  } catch (error) {
+    console.warn('Failed to save cycle cache:', error);
+  }
+}
+
+// Fetch every cycle TzKT knows about (past, current and a few future ones), oldest first.
+// Finished cycles come from the cache; only the ones after it are requested.
+export async function fetchCycles(config: DashboardConfig, options: FetchOptions = {}): Promise<CycleInfo[]> {
+  const cached = await loadCycleCache(config);
+  const lastCached = cached.length > 0 ? cached[cached.length - 1].index : null;
+
+  // offset.cr continues after a value of the sort field
+  const fresh = await fetchJson<CycleInfo[]>(
+    tzktUrl(config, `cycles?select=index,firstLevel,lastLevel,startTime,endTime&sort.asc=index&limit=10000${lastCached === null ? '' : `&offset.cr=${lastCached}`}`),
+    { signal: options.signal }
+  );
+  const cycles = [...cached, ...fresh];
+  options.onProgress?.({ pages: 1, records: cycles.length, done: true });
+
+  const now = Date.now();
+  const finished = cycles.filter(cycle => Date.parse(cycle.endTime) < now);
+  if (finished.length > cached.length) await saveCycleCache(config, finished);
+
+  return cycles;
+}
+
+// Fetch the chain head and the unstake delay of the active protocol
+export async function fetchProtocolTiming(config: DashboardConfig, options: FetchOptions = {}): Promise<ProtocolTiming> {
+  const [head, protocol] = await Promise.all([
+    fetchJson<HeadResponse>(tzktUrl(config, 'head'), { signal: options.signal }),
+    fetchJson<ProtocolResponse>(tzktUrl(config, 'protocols/current'), { signal: options.signal })
+  ]);
+
+  const rightsDelay = protocol.constants.consensusRightsDelay
+    ?? protocol.constants.preservedCycles
+    ?? DEFAULT_CONSENSUS_RIGHTS_DELAY;
+  const slashingPeriod = protocol.constants.maxSlashingPeriod ?? DEFAULT_MAX_SLASHING_PERIOD;
+
+  return {
+    currentLevel: head.level,
+    currentCycle: head.cycle,
+    consensusRightsDelay: rightsDelay,
+    unstakeDelayCycles: rightsDelay + slashingPeriod
+  };
+}
+
+// Find the cycle containing a level (cycles must be sorted by index)
+export function cycleOfLevel(cycles: CycleInfo[], level: number): CycleInfo | null {
+  let low = 0;
+  let high = cycles.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    const cycle = cycles[mid];
+    if (level < cycle.firstLevel) high = mid - 1;
+    else if (level > cycle.lastLevel) low = mid + 1;
+    else return cycle;
+  }
+  return null;
+}
+
+// Stamp operations with the cycle their level belongs to (left unset if TzKT has no such cycle yet)
+export function assignCycles(operations: StakingOperation[], cycles: CycleInfo[]): StakingOperation[] {
+  return operations.map(op => op.cycle !== undefined ? op : { ...op, cycle: cycleOfLevel(cycles, op.level)?.index });
+}
+
+// Look up a cycle by index
+export function cycleByIndex(cycles: CycleInfo[], index: number): CycleInfo | null {
+  // Cycles are contiguous, so the index is usually the array offset from the first one
+  const guess = cycles[index - (cycles[0]?.index ?? 0)];
+  if (guess?.index === index) return guess;
+  return cycles.find(cycle => cycle.index === index) ?? null;
+}
@@ -0,0 +1,198 @@
+import { tzktUrl } from './config';
+import type { DashboardConfig } from './config';
+import { fetchJson } from './http';
+import type { FetchOptions, TokenTransfer } from './api';
+import { parseMutez, ratio } from './amounts';
+import { rateAt } from './rates';
+import type { RateHistory } from './rates';
+
+// stXTZ transfers classified by what moved the tokens, and the secondary-market price
+// they imply.
+//
+// Pools are listed in config.json (`dexPools`). A transfer into or out of a pool is matched
+// to the pool call the wallet made at the same level: liquidity entrypoints make it an LP
+// add/remove, anything else a swap. A swap's XTZ side is the XTZ the wallet sent with the
+// call (buying stXTZ) or the XTZ the pool paid out in the same operation (selling).
+
+export interface DexPool {
+  address: string; // KT1 of the pool contract
+  name: string;
+}
+
+export type TransferKind = 'mint' | 'burn' | 'peer' | 'swap' | 'lp-add' | 'lp-remove';
+
+export interface ClassifiedTransfer extends TokenTransfer {
+  kind: TransferKind;
+  pool?: string;      // pool address for swaps and liquidity changes
+  xtzAmount?: bigint; // mutez paid or received in a swap, when it could be matched
+}
+
+// One swap valued in XTZ
+export interface DexPricePoint {
+  level: number;
+  timestamp: string;
+  pool: string;
+  side: 'buy' | 'sell'; // from the wallet's point of view
+  stxtzAmount: bigint;  // mutez
+  xtzAmount: bigint;    // mutez
+  price: number;        // XTZ per stXTZ
+}
+
+// A call into a pool contract
+interface PoolCall {
+  level: number;
+  hash: string;
+  pool: string;
+  sender: string;
+  initiator: string | null;
+  entrypoint: string | null;
+  amount: bigint; // mutez sent with the call
+}
+
+// XTZ sent out by a pool
+interface PoolPayout {
+  hash: string;
+  pool: string;
+  amount: bigint;
+}
+
+export interface DexActivity {
+  calls: PoolCall[];
+  payouts: PoolPayout[];
+}
+
+interface PoolCallResponse {
+  level: number;
+  hash: string;
+  sender: { address: string };
+  initiator?: { address: string } | null;
+  entrypoint?: string | null;
+  amount: number;
+}
+
+interface PoolPayoutResponse {
+  hash: string;
+  amount: number;
+}
+
+// Levels per request - keeps query strings well below URL length limits
+const LEVEL_BATCH_SIZE = 100;
+
+// Liquidity entrypoints across common Tezos DEX contracts (Quipuswap, Plenty, Youves, ...)
+const LP_ADD_ENTRYPOINT = /^(add|invest)_?liquidity$/i;
+const LP_REMOVE_ENTRYPOINT = /^(remove|divest)_?liquidity$/i;
+
+// The pool a transfer goes through, if any
+function poolOf(transfer: TokenTransfer, pools: Set<string>): string | null {
+  if (transfer.from && pools.has(transfer.from.address)) return transfer.from.address;
+  if (transfer.to && pools.has(transfer.to.address)) return transfer.to.address;
+  return null;
+}
+
+// Fetch the pool calls and XTZ payouts at every level where stXTZ moved through a pool
+export async function fetchDexActivity(
+  config: DashboardConfig,
+  pools: DexPool[],
+  transfers: TokenTransfer[],
+  options: FetchOptions = {}
+): Promise<DexActivity> {
+  const activity: DexActivity = { calls: [], payouts: [] };
+  const poolAddresses = new Set(pools.map(pool => pool.address));
+  let pages = 0;
+
+  for (const pool of pools) {
+    const levels = [...new Set(transfers
+      .filter(transfer => poolOf(transfer, poolAddresses) === pool.address)
+      .map(transfer => transfer.level))];
+
+    for (let start = 0; start < levels.length; start += LEVEL_BATCH_SIZE) {
+      const batch = levels.slice(start, start + LEVEL_BATCH_SIZE).join(',');
+      const [calls, payouts] = await Promise.all([
+        fetchJson<PoolCallResponse[]>(
+          tzktUrl(config, `operations/transactions?target=${pool.address}&status=applied&level.in=${batch}&limit=10000&select=level,hash,sender,initiator,amount,parameter.entrypoint as entrypoint`),
+          { signal: options.signal }
+        ),
+        fetchJson<PoolPayoutResponse[]>(
+          tzktUrl(config, `operations/transactions?sender=${pool.address}&status=applied&amount.gt=0&level.in=${batch}&limit=10000&select=hash,amount`),
+          { signal: options.signal }
+        )
+      ]);
+
+      activity.calls.push(...calls.map(call => ({
+        level: call.level,
+        hash: call.hash,
+        pool: pool.address,
+        sender: call.sender.address,
+        initiator: call.initiator?.address ?? null,
+        entrypoint: call.entrypoint ?? null,
+        amount: parseMutez(call.amount)
+      })));
+      activity.payouts.push(...payouts.map(payout => ({ hash: payout.hash, pool: pool.address, amount: parseMutez(payout.amount) })));
+
+      pages++;
+      options.onProgress?.({ pages, records: activity.calls.length, done: false });
+    }
+  }
+
+  options.onProgress?.({ pages, records: activity.calls.length, done: true });
+  return activity;
+}
+
+// Classify every transfer; without pools every wallet-to-wallet move is a peer transfer
+export function classifyTransfers(transfers: TokenTransfer[], pools: DexPool[], activity: DexActivity): ClassifiedTransfer[] {
+  const poolAddresses = new Set(pools.map(pool => pool.address));
+
+  const callsByLevel = new Map<string, PoolCall[]>();
+  for (const call of activity.calls) {
+    const key = `${call.pool}:${call.level}`;
+    callsByLevel.set(key, [...(callsByLevel.get(key) ?? []), call]);
+  }
+  const payoutsByHash = new Map<string, bigint>();
+  for (const payout of activity.payouts) {
+    const key = `${payout.pool}:${payout.hash}`;
+    payoutsByHash.set(key, (payoutsByHash.get(key) ?? 0n) + payout.amount);
+  }
+
+  return transfers.map(transfer => {
+    if (!transfer.from) return { ...transfer, kind: 'mint' };
+    if (!transfer.to) return { ...transfer, kind: 'burn' };
+
+    const pool = poolOf(transfer, poolAddresses);
+    if (!pool) return { ...transfer, kind: 'peer' };
+
+    // Prefer the call the wallet made itself; routers leave the wallet as initiator
+    const buying = transfer.from.address === pool;
+    const wallet = buying ? transfer.to.address : transfer.from.address;
+    const candidates = callsByLevel.get(`${pool}:${transfer.level}`) ?? [];
+    const call = candidates.find(candidate => candidate.sender === wallet || candidate.initiator === wallet) ?? candidates[0];
+
+    if (call?.entrypoint && LP_ADD_ENTRYPOINT.test(call.entrypoint)) return { ...transfer, kind: 'lp-add', pool };
+    if (call?.entrypoint && LP_REMOVE_ENTRYPOINT.test(call.entrypoint)) return { ...transfer, kind: 'lp-remove', pool };
+
+    const xtzAmount = !call ? 0n : buying ? call.amount : payoutsByHash.get(`${pool}:${call.hash}`) ?? 0n;
+    return { ...transfer, kind: 'swap', pool, xtzAmount: xtzAmount > 0n ? xtzAmount : undefined };
+  });
+}
+
+// Price of every swap whose XTZ side is known, oldest first
+export function dexPriceSeries(transfers: ClassifiedTransfer[]): DexPricePoint[] {
+  return transfers
+    .filter(transfer => transfer.kind === 'swap' && transfer.xtzAmount !== undefined && parseMutez(transfer.amount) > 0n)
+    .map(transfer => {
+      const stxtzAmount = parseMutez(transfer.amount);
+      return {
+        level: transfer.level,
+        timestamp: transfer.timestamp,
+        pool: transfer.pool!,
+        side: transfer.from?.address === transfer.pool ? 'buy' as const : 'sell' as const,
+        stxtzAmount,
+        xtzAmount: transfer.xtzAmount!,
+        price: ratio(transfer.xtzAmount!, stxtzAmount)!
+      };
+    });
+}
+
+// Premium (positive) or discount of a swap price against the redemption rate at its level
+export function dexPremium(point: DexPricePoint, rates: RateHistory): number {
+  return point.price / rateAt(rates, point.level).rate - 1;
+}
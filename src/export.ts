@@ -0,0 +1,150 @@
+import type { StakingOperation, StakingStats, TokenTransfer, WalletStats } from './api';
+import type { ChartData } from './chartData';
+import { compareMutez, mutezToDecimal } from './amounts';
+
+// CSV / JSON export of the dashboard's data.
+//
+// Exports are built from the same operations the dashboard renders, narrowed by the
+// active filters, so a file always matches what is on screen. Amounts are written as exact
+// XTZ decimal strings ("1234.500000") so no digit is lost to floating point.
+
+export type ExportFormat = 'csv' | 'json';
+
+export interface ExportFilters {
+  from: string | null;   // first day included (YYYY-MM-DD), null for the full history
+  to: string | null;     // last day included (YYYY-MM-DD)
+  wallet: string | null; // only operations sent by this wallet
+}
+
+export type ExportRow = Record<string, string | number | boolean | null>;
+
+export const NO_FILTERS: ExportFilters = { from: null, to: null, wallet: null };
+
+// Copy of a record with every bigint mutez amount as an XTZ decimal string
+function decimalAmounts(record: object): ExportRow {
+  return Object.fromEntries(Object.entries(record).map(([key, value]) =>
+    [key, typeof value === 'bigint' ? mutezToDecimal(value) : value ?? null]
+  ));
+}
+
+// Whether a day (YYYY-MM-DD) lies inside the filter's date range
+function inRange(date: string, filters: ExportFilters): boolean {
+  return (filters.from === null || date >= filters.from) && (filters.to === null || date <= filters.to);
+}
+
+// Operations matching the active date range and wallet
+export function filterOperations(operations: StakingOperation[], filters: ExportFilters): StakingOperation[] {
+  return operations.filter(op =>
+    inRange(op.timestamp.split('T')[0], filters) &&
+    (filters.wallet === null || op.sender === filters.wallet)
+  );
+}
+
+// Transfers matching the active date range, sent or received by the active wallet
+export function filterTransfers<T extends TokenTransfer>(transfers: T[], filters: ExportFilters): T[] {
+  return transfers.filter(transfer =>
+    inRange(transfer.timestamp.split('T')[0], filters) &&
+    (filters.wallet === null || transfer.from?.address === filters.wallet || transfer.to?.address === filters.wallet)
+  );
+}
+
+// One row per operation, with the identifiers needed to find it on chain
+export function operationRows(operations: StakingOperation[]): ExportRow[] {
+  return [...operations]
+    .sort((a, b) => a.level - b.level)
+    .map(op => ({
+      timestamp: op.timestamp,
+      level: op.level,
+      cycle: op.cycle ?? null,
+      hash: op.hash ?? null,
+      counter: op.counter ?? null,
+      nonce: op.nonce ?? null,
+      source: op.source,
+      type: op.type,
+      sender: op.sender ?? null,
+      baker: op.baker ?? null,
+      amount: mutezToDecimal(op.amount),
+      stxtzAmount: op.stxtzAmount === undefined ? null : mutezToDecimal(op.stxtzAmount),
+      exact: op.exact
+    }));
+}
+
+// Leaderboard rows, largest net position first
+export function walletStatsRows(walletStats: WalletStats[]): ExportRow[] {
+  return [...walletStats]
+    .sort((a, b) => compareMutez(b.netPosition, a.netPosition))
+    .map(decimalAmounts);
+}
+
+// One row per summary (e.g. per baker and for the stXTZ contract)
+export function stakingStatsRows(stats: Map<string, StakingStats>): ExportRow[] {
+  return Array.from(stats, ([name, summary]) => decimalAmounts({ name, ...summary }));
+}
+
+// One row per bucket of the chart series; comparison bakers get a balance column each
+export function chartDataRows(data: ChartData, bakerNames: Record<string, string> = {}): ExportRow[] {
+  return data.labels.map((period, index) => {
+    const row: ExportRow = {
+      period,
+      bakeryStakes: data.bakeryStakes[index],
+      bakeryUnstakes: data.bakeryUnstakes[index],
+      bakeryFinalize: data.bakeryFinalize[index],
+      bakeryBalance: data.bakeryBalance[index],
+      stxtzDeposits: data.stxtzDeposits[index],
+      stxtzWithdrawals: data.stxtzWithdrawals[index],
+      stxtzFinalize: data.stxtzFinalize[index],
+      stxtzBalance: data.stxtzBalance[index]
+    };
+    for (const series of data.comparisonBalances) {
+      row[`${bakerNames[series.baker] ?? series.baker} balance`] = series.balance[index];
+    }
+    return row;
+  });
+}
+
+// Quote a CSV field if it contains a separator, quote or line break
+function csvField(value: string | number | boolean | null): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Serialize rows as CSV (RFC 4180); columns come from the first row
+export function toCsv(rows: ExportRow[]): string {
+  if (rows.length === 0) return '';
+  const columns = Object.keys(rows[0]);
+  const lines = [
+    columns.map(csvField).join(','),
+    ...rows.map(row => columns.map(column => csvField(row[column] ?? null)).join(','))
+  ];
+  return lines.join('\r\n') + '\r\n';
+}
+
+// Serialize rows as CSV or pretty-printed JSON
+export function serializeRows(rows: ExportRow[], format: ExportFormat): string {
+  return format === 'csv' ? toCsv(rows) : JSON.stringify(rows, null, 2);
+}
+
+// Suffix describing the active filters, e.g. "_2024-01-01_2024-03-31_tz1abc"
+export function filterSuffix(filters: ExportFilters): string {
+  const parts = [filters.from, filters.to, filters.wallet].filter((part): part is string => part !== null);
+  return parts.length > 0 ? `_${parts.join('_')}` : '';
+}
+
+// Offer rows to the browser as a file download
+export function downloadRows(filename: string, rows: ExportRow[], format: ExportFormat): void {
+  const type = format === 'csv' ? 'text/csv;charset=utf-8' : 'application/json';
+  downloadFile(`${filename}.${format}`, serializeRows(rows, format), type);
+}
+
+// Save text as a file through a temporary link
+export function downloadFile(filename: string, content: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
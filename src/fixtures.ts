@@ -0,0 +1,109 @@
+import { networkTransport } from './http';
+import type { HttpTransport } from './http';
+
+// Recorded TzKT responses, for running the dashboard without the network.
+//
+//   ?record=1          fetch from TzKT as usual and keep every response; "Save fixtures"
+//                      downloads them as one JSON file
+//   ?fixtures=<url>    answer every TzKT request from such a file; unknown requests get a 404
+//
+// Responses are keyed by the request path below /v1/ (query included), so a file recorded
+// against one TzKT instance replays against any base URL. Both modes turn persistent caches
+// off, otherwise the requests issued would depend on what an earlier visit had cached.
+
+export interface FixtureFile {
+  recordedAt: string;
+  responses: Record<string, unknown>;
+}
+
+export type FixtureMode =
+  | { kind: 'record' }
+  | { kind: 'replay'; url: string };
+
+export class FixtureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FixtureError';
+  }
+}
+
+// Fixture key of a TzKT URL: everything after /v1/
+export function fixtureKey(url: string): string {
+  const start = url.indexOf('/v1/');
+  return start === -1 ? url : url.slice(start + '/v1/'.length);
+}
+
+// Fixture mode requested in the query string, if any
+export function fixtureModeFromUrl(search: string = window.location.search): FixtureMode | null {
+  const params = new URLSearchParams(search);
+  const fixtures = params.get('fixtures');
+  // Absolute, as the worker loading it resolves relative URLs against its own script
+  if (fixtures) return { kind: 'replay', url: new URL(fixtures, window.location.href).href };
+  if (params.get('record') === '1') return { kind: 'record' };
+  return null;
+}
+
+export async function loadFixtures(url: string): Promise<FixtureFile> {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch {
+    throw new FixtureError(`Could not load fixtures from ${url}`);
+  }
+  if (!response.ok) {
+    throw new FixtureError(`Could not load fixtures from ${url}: ${response.status}`);
+  }
+
+  try {
+    const file = await response.json() as FixtureFile;
+    if (!file.responses || typeof file.responses !== 'object') throw new Error();
+    return file;
+  } catch {
+    throw new FixtureError(`${url} is not a fixture file`);
+  }
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+// Answer requests from recorded responses
+export function createReplayTransport(fixtures: FixtureFile): HttpTransport {
+  return async (url, signal) => {
+    if (signal?.aborted) throw new DOMException('The operation was aborted', 'AbortError');
+
+    const key = fixtureKey(url);
+    if (!(key in fixtures.responses)) {
+      console.warn(`No fixture for ${key}`);
+      return jsonResponse({ error: `No fixture for ${key}` }, 404);
+    }
+    return jsonResponse(fixtures.responses[key]);
+  };
+}
+
+// Fetch from the network and keep every successful JSON response in `recording`
+export function createRecordingTransport(recording: Map<string, unknown>, transport: HttpTransport = networkTransport): HttpTransport {
+  return async (url, signal) => {
+    const response = await transport(url, signal);
+    if (response.ok) {
+      try {
+        recording.set(fixtureKey(url), await response.clone().json());
+      } catch {
+        // Not JSON - fetchJson reports it; nothing to record
+      }
+    }
+    return response;
+  };
+}
+
+// Recorded responses as a fixture file
+export function serializeRecording(recording: Map<string, unknown>): string {
+  const file: FixtureFile = {
+    recordedAt: new Date().toISOString(),
+    responses: Object.fromEntries(recording)
+  };
+  return JSON.stringify(file, null, 2);
+}
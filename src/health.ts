@@ -0,0 +1,156 @@
+import { tzktUrl } from './config';
+import type { DashboardConfig } from './config';
+import { fetchJson } from './http';
+import type { FetchOptions, TokenTransfer } from './api';
+import { mulRate, parseMutez, ratio } from './amounts';
+import { rateAt } from './rates';
+import type { RateHistory } from './rates';
+import type { StakerBalance } from './reconciliation';
+import type { BalancePoint } from './wallet';
+import type { WithdrawalQueue } from './withdrawals';
+
+// Protocol health: is every stXTZ backed by XTZ?
+//
+// Obligations are the stXTZ supply valued at the exchange rate plus XTZ owed to open
+// withdrawal requests (their stXTZ is already burned). Backing is everything the contract
+// holds: liquid XTZ, stake at the baker and unstaked XTZ waiting to be finalized. The
+// collateralization ratio is backing / obligations.
+
+export interface HealthSnapshot {
+  level: number;
+  timestamp: string;
+  supply: bigint;      // stXTZ, in mutez
+  rate: number;        // XTZ per stXTZ
+  queueOwed: bigint;   // mutez owed to open withdrawal requests
+  backing: bigint;     // mutez held by the contract (liquid + staked + unstaked)
+  ratio: number | null; // backing / (supply * rate + queueOwed), null without obligations
+}
+
+export interface HealthBreakdown extends HealthSnapshot {
+  liquid: bigint;
+  staked: bigint;
+  unstaked: bigint;
+}
+
+// Ratio below which the panel flags the protocol as under-collateralized
+export const COLLATERAL_THRESHOLD = 0.995;
+
+const HISTORY_PAGE_SIZE = 10000;
+
+interface BalanceHistoryResponse {
+  level: number;
+  timestamp: string;
+  balance: number;
+}
+
+// Fetch every balance change of an account (full balance, including staked XTZ), oldest first.
+// balance_history has no ids, so it is paged by offset.
+export async function fetchBalanceHistory(config: DashboardConfig, address: string, options: FetchOptions = {}): Promise<BalancePoint[]> {
+  const points: BalancePoint[] = [];
+  let pages = 0;
+
+  while (true) {
+    const page = await fetchJson<BalanceHistoryResponse[]>(
+      tzktUrl(config, `accounts/${address}/balance_history?sort.asc=level&limit=${HISTORY_PAGE_SIZE}&offset=${points.length}`),
+      { signal: options.signal }
+    );
+    points.push(...page.map(entry => ({ level: entry.level, timestamp: entry.timestamp, balance: parseMutez(entry.balance) })));
+    pages++;
+
+    const done = page.length < HISTORY_PAGE_SIZE;
+    options.onProgress?.({ pages, records: points.length, done });
+    if (done) return points;
+  }
+}
+
+// Collateralization ratio, or null when nothing is owed
+function collateralRatio(backing: bigint, supply: bigint, rate: number, queueOwed: bigint): number | null {
+  const obligations = mulRate(supply, rate) + queueOwed;
+  return obligations > 0n ? ratio(backing, obligations) : null;
+}
+
+// One snapshot per UTC day (state at the last event of that day), oldest first
+export function buildHealthHistory(
+  supplyTransfers: TokenTransfer[],
+  balanceHistory: BalancePoint[],
+  rates: RateHistory,
+  queue: WithdrawalQueue
+): HealthSnapshot[] {
+  // Every state change as a level-ordered event
+  type HealthEvent = { level: number; timestamp: string; apply: () => void };
+  let supply = 0n;
+  let backing = 0n;
+  let queueOwed = 0n;
+
+  const events: HealthEvent[] = [
+    ...supplyTransfers.map(transfer => ({
+      level: transfer.level,
+      timestamp: transfer.timestamp,
+      apply: () => {
+        const amount = parseMutez(transfer.amount);
+        if (!transfer.from) supply += amount;
+        else if (!transfer.to) supply -= amount;
+      }
+    })),
+    ...balanceHistory.map(point => ({
+      level: point.level,
+      timestamp: point.timestamp,
+      apply: () => { backing = point.balance; }
+    })),
+    ...queue.requests.flatMap(request => [
+      {
+        level: request.request.level,
+        timestamp: request.request.timestamp,
+        apply: () => { queueOwed += request.amount; }
+      },
+      ...(request.finalization ? [{
+        level: request.finalization.level,
+        timestamp: request.finalization.timestamp,
+        apply: () => { queueOwed -= request.amount; }
+      }] : [])
+    ])
+  ].sort((a, b) => a.level - b.level);
+
+  const byDay = new Map<string, HealthSnapshot>();
+  for (const event of events) {
+    event.apply();
+    const { rate } = rateAt(rates, event.level);
+    byDay.set(event.timestamp.split('T')[0], {
+      level: event.level,
+      timestamp: event.timestamp,
+      supply,
+      rate,
+      queueOwed,
+      backing,
+      ratio: collateralRatio(backing, supply, rate, queueOwed)
+    });
+  }
+
+  return Array.from(byDay.values());
+}
+
+// Current health from live balances, with the backing broken down
+export function currentHealth(
+  supply: bigint,
+  contract: StakerBalance,
+  rates: RateHistory,
+  queue: WithdrawalQueue,
+  level: number,
+  timestamp: string
+): HealthBreakdown {
+  const rate = rates.length > 0 ? rates[rates.length - 1].rate : 1;
+  const backing = contract.balance;
+
+  return {
+    level,
+    timestamp,
+    supply,
+    rate,
+    queueOwed: queue.totalPending,
+    backing,
+    ratio: collateralRatio(backing, supply, rate, queue.totalPending),
+    liquid: contract.balance - contract.stakedBalance - contract.unstakedBalance,
+    staked: contract.stakedBalance,
+    unstaked: contract.unstakedBalance
+  };
+}
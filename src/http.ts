@@ -0,0 +1,214 @@
+// Shared HTTP client for TzKT calls.
+//
+// - Retries network errors, 429 and 5xx responses with exponential backoff and jitter
+// - Honors Retry-After and pauses every queued request while rate-limited
+// - Caps the number of requests in flight
+// - Supports cancellation through AbortSignal
+// - Throws typed errors so callers can tell failures apart
+// - Sends requests through a replaceable transport (fixture replay/recording, see fixtures.ts)
+
+const MAX_CONCURRENT_REQUESTS = 4;
+const DEFAULT_RETRIES = 4;
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 30_000;
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  retries?: number; // attempts after the first one
+}
+
+// Performs one request; everything above (retries, limits, errors) is transport-independent
+export type HttpTransport = (url: string, signal?: AbortSignal) => Promise<Response>;
+
+export const networkTransport: HttpTransport = (url, signal) => fetch(url, { signal });
+
+let transport: HttpTransport = networkTransport;
+
+// Route every later request through another transport
+export function setHttpTransport(next: HttpTransport): void {
+  transport = next;
+}
+
+// Base class for every error thrown by this module
+export class TzktRequestError extends Error {
+  readonly url: string;
+
+  constructor(message: string, url: string) {
+    super(message);
+    this.name = 'TzktRequestError';
+    this.url = url;
+  }
+}
+
+// Non-2xx response
+export class HttpError extends TzktRequestError {
+  readonly status: number;
+
+  constructor(url: string, status: number, statusText: string) {
+    super(`Request to ${url} failed: ${status} ${statusText}`.trim(), url);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+// 429 that was still rate-limited after all retries
+export class RateLimitError extends HttpError {
+  readonly retryAfterMs: number | null;
+
+  constructor(url: string, retryAfterMs: number | null) {
+    super(url, 429, 'Too Many Requests');
+    this.name = 'RateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// Connection failure (DNS, CORS, offline...)
+export class NetworkError extends TzktRequestError {
+  constructor(url: string, cause: unknown) {
+    super(`Network error requesting ${url}: ${cause instanceof Error ? cause.message : String(cause)}`, url);
+    this.name = 'NetworkError';
+  }
+}
+
+// 2xx response whose body is not valid JSON
+export class ResponseParseError extends TzktRequestError {
+  constructor(url: string) {
+    super(`Invalid JSON response from ${url}`, url);
+    this.name = 'ResponseParseError';
+  }
+}
+
+// Request cancelled through its AbortSignal
+export class RequestAbortedError extends TzktRequestError {
+  constructor(url: string) {
+    super(`Request to ${url} was cancelled`, url);
+    this.name = 'RequestAbortedError';
+  }
+}
+
+// Concurrency limiter with a shared cool-down used when the API rate-limits us
+let activeRequests = 0;
+const waitingRequests: Array<() => void> = [];
+let cooldownUntil = 0;
+
+// Wait for a free slot; an abort while queued gives up the place in the queue
+async function acquireSlot(url: string, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) throw new RequestAbortedError(url);
+  if (activeRequests >= MAX_CONCURRENT_REQUESTS) {
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        const index = waitingRequests.indexOf(waiter);
+        if (index !== -1) waitingRequests.splice(index, 1);
+        reject(new RequestAbortedError(url));
+      };
+      const waiter = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      waitingRequests.push(waiter);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+  activeRequests++;
+}
+
+function releaseSlot(): void {
+  activeRequests--;
+  waitingRequests.shift()?.();
+}
+
+// Sleep that rejects as soon as the signal aborts
+function sleep(ms: number, url: string, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RequestAbortedError(url));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RequestAbortedError(url));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Retry-After may be delta-seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// Full-jitter exponential backoff
+function backoffDelay(attempt: number): number {
+  const ceiling = Math.min(BACKOFF_BASE_MS * 2 ** attempt, BACKOFF_MAX_MS);
+  return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status === 408 || status >= 500;
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof RequestAbortedError ||
+    (error instanceof DOMException && error.name === 'AbortError');
+}
+
+// Fetch a URL and parse it as JSON, retrying transient failures
+export async function fetchJson<T>(url: string, options: RequestOptions = {}): Promise<T> {
+  const { signal, retries = DEFAULT_RETRIES } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    // Wait out any rate-limit cool-down another request ran into
+    const cooldown = cooldownUntil - Date.now();
+    if (cooldown > 0) await sleep(cooldown, url, signal);
+
+    await acquireSlot(url, signal);
+    let response: Response;
+    try {
+      response = await transport(url, signal);
+    } catch (error) {
+      releaseSlot();
+      if (isAbortError(error)) throw new RequestAbortedError(url);
+      if (attempt >= retries) throw new NetworkError(url, error);
+      const delay = backoffDelay(attempt);
+      console.warn(`Network error on ${url}, retrying in ${delay} ms`);
+      await sleep(delay, url, signal);
+      continue;
+    }
+
+    if (!response.ok) {
+      releaseSlot();
+      const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+
+      if (!isRetryableStatus(response.status) || attempt >= retries) {
+        throw response.status === 429
+          ? new RateLimitError(url, retryAfter)
+          : new HttpError(url, response.status, response.statusText);
+      }
+
+      const delay = Math.max(retryAfter ?? 0, backoffDelay(attempt));
+      if (response.status === 429) {
+        cooldownUntil = Math.max(cooldownUntil, Date.now() + delay);
+      }
+      console.warn(`${response.status} from ${url}, retrying in ${delay} ms`);
+      await sleep(delay, url, signal);
+      continue;
+    }
+
+    try {
+      return await response.json() as T;
+    } catch (error) {
+      if (isAbortError(error)) throw new RequestAbortedError(url);
+      throw new ResponseParseError(url);
+    } finally {
+      releaseSlot();
+    }
+  }
+}
@@ -0,0 +1,119 @@
+import type { HolderSet, WalletStats } from './api';
+import { compareMutez, parseMutez, tezToMutez } from './amounts';
+
+// Wallet leaderboard model: one row per holder or wallet with contract activity,
+// filtered, sorted and paged for display.
+
+export interface LeaderboardRow {
+  address: string;
+  alias?: string;
+  balance: bigint | null; // stXTZ; null when the wallet is not in an incomplete holder list
+  netPosition: bigint;
+  totalDeposited: bigint;
+  totalWithdrawn: bigint;
+  netTransferred: bigint; // peer transfers, swaps and liquidity changes, valued in XTZ
+  firstSeen: string | null;
+  lastActive: string | null;
+}
+
+export type LeaderboardSortKey = 'balance' | 'netPosition' | 'totalDeposited' | 'totalWithdrawn' | 'netTransferred' | 'firstSeen' | 'lastActive';
+
+export interface LeaderboardQuery {
+  sort: LeaderboardSortKey;
+  direction: 'asc' | 'desc';
+  search: string;            // matches address or alias, case-insensitive
+  minBalance: number | null; // stXTZ
+  minNetFlow: number | null; // XTZ
+  page: number;              // zero-based
+  pageSize: number;          // Infinity shows every row on one page
+}
+
+export interface LeaderboardPage {
+  rows: LeaderboardRow[]; // rows of the requested page
+  offset: number;         // rank of the first row minus one
+  total: number;          // rows matching search and filters
+  page: number;           // requested page, clamped to the available pages
+  pageCount: number;
+}
+
+export const DEFAULT_LEADERBOARD_QUERY: LeaderboardQuery = {
+  sort: 'balance',
+  direction: 'desc',
+  search: '',
+  minBalance: null,
+  minNetFlow: null,
+  page: 0,
+  pageSize: 25
+};
+
+// Net stXTZ a wallet moved outside the contract (transfers, swaps, liquidity), valued in XTZ
+export function netTransferred(stats: WalletStats): bigint {
+  return stats.netPosition - (stats.totalDeposited - stats.totalWithdrawn);
+}
+
+// Merge holder balances with wallet stats; wallets missing from the holder list hold nothing,
+// unless the list is incomplete
+export function buildLeaderboardRows(walletStats: WalletStats[], holderSet: HolderSet): LeaderboardRow[] {
+  const statsMap = new Map(walletStats.map(stats => [stats.address, stats]));
+  const fromStats = (stats: WalletStats | undefined) => ({
+    netPosition: stats?.netPosition ?? 0n,
+    totalDeposited: stats?.totalDeposited ?? 0n,
+    totalWithdrawn: stats?.totalWithdrawn ?? 0n,
+    netTransferred: stats ? netTransferred(stats) : 0n,
+    firstSeen: stats?.firstSeen ?? null,
+    lastActive: stats?.lastActive ?? null
+  });
+
+  const holderRows = holderSet.holders.map(holder => ({
+    address: holder.account.address,
+    alias: holder.account.alias,
+    balance: parseMutez(holder.balance),
+    ...fromStats(statsMap.get(holder.account.address))
+  }));
+
+  const holderAddresses = new Set(holderRows.map(row => row.address));
+  const otherRows = walletStats
+    .filter(stats => !holderAddresses.has(stats.address))
+    .map(stats => ({
+      address: stats.address,
+      balance: holderSet.complete ? 0n : null,
+      ...fromStats(stats)
+    }));
+
+  return [...holderRows, ...otherRows];
+}
+
+// Filter, sort and page the rows. Unknown values (null) sort last in either direction.
+export function queryLeaderboard(rows: LeaderboardRow[], query: LeaderboardQuery): LeaderboardPage {
+  const search = query.search.trim().toLowerCase();
+  const minBalance = query.minBalance === null ? null : tezToMutez(query.minBalance);
+  const minNetFlow = query.minNetFlow === null ? null : tezToMutez(query.minNetFlow);
+  const matching = rows.filter(row =>
+    (!search || row.address.toLowerCase().includes(search) || (row.alias?.toLowerCase().includes(search) ?? false)) &&
+    (minBalance === null || (row.balance ?? 0n) >= minBalance) &&
+    (minNetFlow === null || row.netPosition >= minNetFlow)
+  );
+
+  const sign = query.direction === 'asc' ? 1 : -1;
+  const sorted = matching.sort((a, b) => {
+    const left = a[query.sort];
+    const right = b[query.sort];
+    if (left === null || right === null) return left === right ? 0 : left === null ? 1 : -1;
+    if (typeof left === 'bigint' && typeof right === 'bigint') return sign * compareMutez(left, right);
+    if (left < right) return -sign;
+    if (left > right) return sign;
+    return 0;
+  });
+
+  const pageCount = Math.max(1, Math.ceil(sorted.length / query.pageSize));
+  const page = Math.min(query.page, pageCount - 1);
+  const offset = Number.isFinite(query.pageSize) ? page * query.pageSize : 0;
+
+  return {
+    rows: sorted.slice(offset, offset + query.pageSize),
+    offset,
+    total: sorted.length,
+    page,
+    pageCount
+  };
+}
@@ -0,0 +1,191 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { StakingOperation } from './api';
+import type { DashboardConfig } from './config';
+import { createMockTransport, createTzktTransport, startLiveUpdates } from './live';
+import type { LiveCallbacks, LiveStatus } from './live';
+
+const BAKER = 'tz1MASi45ub7Qe4ZE36UT5G6cU4ud8Fhhe4d';
+const CONTRACT = 'KT1eS4F3cw9KTAb8dLcukC7edhDQ7cn5d4gE';
+const WALLET = 'tz1qNAYT3j5qcdsyuMNmPfYetW5v6JXmj54o';
+
+const CONFIG: DashboardConfig = {
+  network: 'mock',
+  tzktApiBase: 'http://localhost:5174',
+  explorerBase: 'https://tzkt.io',
+  baker: BAKER,
+  contract: CONTRACT,
+  tokenId: '1',
+  compareBakers: [],
+  alertRules: [],
+  dexPools: []
+};
+
+const STAKE = { type: 'staking', id: 1, level: 30_000, hash: 'oo1', counter: 1, timestamp: '2025-02-10T00:00:00Z', action: 'stake', amount: 5_000_000_000, baker: { address: BAKER } };
+const DEPOSIT = { type: 'transaction', id: 2, level: 30_000, hash: 'oo2', counter: 2, timestamp: '2025-02-10T00:00:00Z', amount: 5_000_000_000, status: 'applied', parameter: { entrypoint: 'deposit', value: {} }, sender: { address: WALLET }, target: { address: CONTRACT } };
+const FAILED = { ...DEPOSIT, id: 3, status: 'failed' };
+
+function recordingCallbacks() {
+  const statuses: LiveStatus[] = [];
+  const callbacks = {
+    onBakeryOperations: vi.fn<LiveCallbacks['onBakeryOperations']>(),
+    onStXTZOperations: vi.fn<LiveCallbacks['onStXTZOperations']>(),
+    onReorg: vi.fn<LiveCallbacks['onReorg']>(),
+    onReconnect: vi.fn<LiveCallbacks['onReconnect']>(),
+    onStatus: (status: LiveStatus) => statuses.push(status)
+  };
+  return { callbacks, statuses };
+}
+
+const normalized: StakingOperation = { level: 30_000, timestamp: DEPOSIT.timestamp, type: 'stake', amount: 5_000_000_000n, exact: true, source: 'stxtz', sender: WALLET };
+
+describe('startLiveUpdates with the mock transport', () => {
+  it('subscribes to every baker and the contract', () => {
+    const transport = createMockTransport();
+    const { callbacks, statuses } = recordingCallbacks();
+    startLiveUpdates({ ...CONFIG, compareBakers: ['tz1other'] }, transport, async () => [], callbacks);
+
+    expect(transport.subscriptions()).toEqual([
+      { address: BAKER, types: 'staking' },
+      { address: 'tz1other', types: 'staking' },
+      { address: CONTRACT, types: 'transaction' }
+    ]);
+    expect(statuses).toEqual(['live']);
+  });
+
+  it('normalizes bakery operations and applied contract calls', async () => {
+    const transport = createMockTransport();
+    const { callbacks } = recordingCallbacks();
+    const normalize = vi.fn(async () => [normalized]);
+    startLiveUpdates(CONFIG, transport, normalize, callbacks);
+    const [bakery, contract] = transport.subscriptions();
+
+    transport.emit({ kind: 'operations', subscription: bakery, data: [STAKE] });
+    expect(callbacks.onBakeryOperations).toHaveBeenCalledWith(BAKER, [
+      expect.objectContaining({ level: 30_000, type: 'stake', amount: 5_000_000_000n, source: 'bakery', baker: BAKER })
+    ]);
+
+    transport.emit({ kind: 'operations', subscription: contract, data: [DEPOSIT, FAILED] });
+    await vi.waitFor(() => expect(callbacks.onStXTZOperations).toHaveBeenCalledWith([normalized]));
+    expect(normalize).toHaveBeenCalledWith([DEPOSIT]);
+
+    transport.emit({ kind: 'reorg', level: 29_990 });
+    expect(callbacks.onReorg).toHaveBeenCalledWith(29_990);
+  });
+
+  it('reports a reconnect once the connection is live again', () => {
+    const transport = createMockTransport();
+    const { callbacks, statuses } = recordingCallbacks();
+    const connection = startLiveUpdates(CONFIG, transport, async () => [], callbacks);
+
+    transport.setStatus('reconnecting');
+    expect(callbacks.onReconnect).not.toHaveBeenCalled();
+    transport.setStatus('live');
+    expect(callbacks.onReconnect).toHaveBeenCalledTimes(1);
+
+    connection.close();
+    expect(statuses).toEqual(['live', 'reconnecting', 'live', 'closed']);
+    expect(transport.subscriptions()).toEqual([]);
+  });
+});
+
+// Stands in for the browser WebSocket; close() reports the close right away
+class FakeSocket {
+  static sockets: FakeSocket[] = [];
+  sent: unknown[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onclose: (() => void) | null = null;
+  readonly url: string;
+
+  constructor(url: string) {
+    this.url = url;
+    FakeSocket.sockets.push(this);
+  }
+
+  send(frame: string) {
+    this.sent.push(JSON.parse(frame.replace('\u001e', '')));
+  }
+
+  close() {
+    this.onclose?.();
+  }
+
+  // Deliver raw frames from the server
+  receive(...frames: string[]) {
+    this.onmessage?.({ data: frames.map(frame => `${frame}\u001e`).join('') });
+  }
+}
+
+describe('createTzktTransport', () => {
+  beforeEach(() => {
+    FakeSocket.sockets = [];
+    vi.useFakeTimers();
+    vi.stubGlobal('WebSocket', FakeSocket);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  // Open the current socket and answer its handshake
+  const handshake = () => {
+    const socket = FakeSocket.sockets.at(-1)!;
+    socket.onopen!();
+    socket.receive('{}');
+    return socket;
+  };
+
+  it('subscribes after the handshake and routes operations to their feed', () => {
+    const { callbacks, statuses } = recordingCallbacks();
+    startLiveUpdates(CONFIG, createTzktTransport(CONFIG), async () => [], callbacks);
+    expect(FakeSocket.sockets[0].url).toBe('ws://localhost:5174/v1/ws');
+    expect(statuses).toEqual(['connecting']);
+
+    const socket = handshake();
+    expect(socket.sent).toEqual([
+      { protocol: 'json', version: 1 },
+      { type: 1, invocationId: '0', target: 'SubscribeToOperations', arguments: [{ address: BAKER, types: 'staking' }] },
+      { type: 1, invocationId: '1', target: 'SubscribeToOperations', arguments: [{ address: CONTRACT, types: 'transaction' }] }
+    ]);
+    expect(statuses).toEqual(['connecting', 'live']);
+
+    socket.receive(JSON.stringify({ type: 1, target: 'operations', arguments: [{ type: 1, state: 30_000, data: [STAKE] }] }));
+    expect(callbacks.onBakeryOperations).toHaveBeenCalledWith(BAKER, [expect.objectContaining({ level: 30_000, baker: BAKER })]);
+  });
+
+  it('reconnects with backoff and reports the reconnect', () => {
+    const { callbacks, statuses } = recordingCallbacks();
+    const connection = startLiveUpdates(CONFIG, createTzktTransport(CONFIG), async () => [], callbacks);
+    handshake().close();
+    expect(statuses).toEqual(['connecting', 'live', 'reconnecting']);
+
+    vi.advanceTimersByTime(999);
+    expect(FakeSocket.sockets).toHaveLength(1);
+    vi.advanceTimersByTime(1);
+    expect(FakeSocket.sockets).toHaveLength(2);
+
+    handshake();
+    expect(callbacks.onReconnect).toHaveBeenCalledTimes(1);
+    connection.close();
+    expect(statuses.at(-1)).toBe('closed');
+    vi.advanceTimersByTime(60_000);
+    expect(FakeSocket.sockets).toHaveLength(2);
+  });
+
+  it('drops a malformed frame and the rest of its batch, then reconnects', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { callbacks, statuses } = recordingCallbacks();
+    startLiveUpdates(CONFIG, createTzktTransport(CONFIG), async () => [], callbacks);
+    const socket = handshake();
+
+    socket.receive('{"type":1,', JSON.stringify({ type: 1, target: 'operations', arguments: [{ type: 1, state: 30_000, data: [STAKE] }] }));
+    expect(warn).toHaveBeenCalledWith('Malformed TzKT frame, reconnecting:', expect.any(SyntaxError));
+    expect(callbacks.onBakeryOperations).not.toHaveBeenCalled();
+    expect(statuses.at(-1)).toBe('reconnecting');
+
+    vi.advanceTimersByTime(1_000);
+    expect(FakeSocket.sockets).toHaveLength(2);
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,305 @@
+import { normalizeBakeryOperations } from './api';
+import type { StakingOperation, BakeryResponse, StXTZResponse } from './api';
+import { allBakers } from './config';
+import type { DashboardConfig } from './config';
+
+// Live updates from TzKT's real-time API.
+//
+// The dashboard talks to a LiveTransport, which only knows how to subscribe to
+// operation feeds and push raw events back. createTzktTransport speaks TzKT's
+// SignalR protocol over a WebSocket; createMockTransport lets a local event
+// source (tests, demos) drive the exact same pipeline.
+
+export type LiveStatus = 'connecting' | 'live' | 'reconnecting' | 'closed';
+
+// One TzKT operations subscription (see SubscribeToOperations in the TzKT docs)
+export interface LiveSubscription {
+  address: string;
+  types: 'staking' | 'transaction';
+}
+
+// Raw events delivered by a transport
+export type LiveEvent =
+  | { kind: 'operations'; subscription: LiveSubscription; data: unknown[] }
+  | { kind: 'reorg'; level: number };
+
+export interface LiveTransportHandlers {
+  onEvent(event: LiveEvent): void;
+  onStatus(status: LiveStatus): void;
+}
+
+export interface LiveConnection {
+  close(): void;
+}
+
+export interface LiveTransport {
+  connect(subscriptions: LiveSubscription[], handlers: LiveTransportHandlers): LiveConnection;
+}
+
+// SignalR JSON protocol message separator and message types
+const RECORD_SEPARATOR = '\u001e';
+const MESSAGE_INVOCATION = 1;
+const MESSAGE_COMPLETION = 3;
+const MESSAGE_PING = 6;
+const MESSAGE_CLOSE = 7;
+
+// TzKT operations channel payload types
+const TZKT_DATA = 1;
+const TZKT_REORG = 2;
+
+const PING_INTERVAL_MS = 15_000;
+const RECONNECT_BASE_MS = 1_000;
+const RECONNECT_MAX_MS = 30_000;
+
+// Raw TzKT operation as pushed on the operations channel: the full record, of which routing
+// reads the operation type and the baker or target account
+type LiveOperation = (BakeryResponse | StXTZResponse) & {
+  type: string;
+  baker?: { address: string };
+  target?: { address: string };
+};
+
+interface SignalRMessage {
+  type: number;
+  target?: string;
+  arguments?: Array<{ type: number; state: number; data?: unknown[] }>;
+  invocationId?: string;
+  error?: string;
+}
+
+// Transport backed by TzKT's SignalR hub (wss://api.tzkt.io/v1/ws)
+export function createTzktTransport(config: DashboardConfig): LiveTransport {
+  const url = `${config.tzktApiBase.replace(/^http/, 'ws')}/v1/ws`;
+
+  return {
+    connect(subscriptions, handlers) {
+      let socket: WebSocket | null = null;
+      let pingTimer: ReturnType<typeof setInterval> | undefined;
+      let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+      let attempts = 0;
+      let closed = false;
+
+      // TzKT reports every subscription on the same "operations" target, so invocation
+      // ids are used to route completions and data is matched by operation type/address
+      const send = (message: object) => socket?.send(JSON.stringify(message) + RECORD_SEPARATOR);
+
+      const subscribeAll = () => {
+        subscriptions.forEach((subscription, index) => {
+          send({
+            type: MESSAGE_INVOCATION,
+            invocationId: String(index),
+            target: 'SubscribeToOperations',
+            arguments: [{ address: subscription.address, types: subscription.types }]
+          });
+        });
+      };
+
+      const route = (operation: LiveOperation): LiveSubscription | undefined => {
+        return subscriptions.find(subscription => {
+          if (operation.type !== subscription.types) return false;
+          return subscription.types === 'staking'
+            ? operation.baker?.address === subscription.address
+            : operation.target?.address === subscription.address;
+        });
+      };
+
+      const handleMessage = (message: SignalRMessage) => {
+        if (message.type === MESSAGE_COMPLETION && message.error) {
+          console.warn(`TzKT subscription ${message.invocationId} failed: ${message.error}`);
+        } else if (message.type === MESSAGE_CLOSE) {
+          socket?.close();
+        } else if (message.type === MESSAGE_INVOCATION && message.target === 'operations') {
+          const payload = message.arguments?.[0];
+          if (!payload) return;
+
+          if (payload.type === TZKT_REORG) {
+            handlers.onEvent({ kind: 'reorg', level: payload.state });
+          } else if (payload.type === TZKT_DATA && payload.data) {
+            // Group the batch by subscription so consumers get one event per feed
+            const grouped = new Map<LiveSubscription, unknown[]>();
+            for (const operation of payload.data as LiveOperation[]) {
+              const subscription = route(operation);
+              if (!subscription) continue;
+              if (!grouped.has(subscription)) grouped.set(subscription, []);
+              grouped.get(subscription)!.push(operation);
+            }
+            grouped.forEach((data, subscription) => {
+              handlers.onEvent({ kind: 'operations', subscription, data });
+            });
+          }
+        }
+      };
+
+      const open = () => {
+        handlers.onStatus(attempts === 0 ? 'connecting' : 'reconnecting');
+        socket = new WebSocket(url);
+        let handshakeDone = false;
+
+        socket.onopen = () => {
+          socket!.send(JSON.stringify({ protocol: 'json', version: 1 }) + RECORD_SEPARATOR);
+        };
+
+        socket.onmessage = (event) => {
+          const frames = String(event.data).split(RECORD_SEPARATOR).filter(Boolean);
+          for (const frame of frames) {
+            // A malformed frame leaves the stream in an unknown state: start over
+            let message: SignalRMessage;
+            try {
+              message = JSON.parse(frame);
+            } catch (error) {
+              console.warn('Malformed TzKT frame, reconnecting:', error);
+              socket?.close();
+              return;
+            }
+
+            // The first frame is the handshake response: {} or { error }
+            if (!handshakeDone) {
+              if (message.error) {
+                console.warn('TzKT handshake failed:', message.error);
+                socket?.close();
+                return;
+              }
+              handshakeDone = true;
+              attempts = 0;
+              subscribeAll();
+              pingTimer = setInterval(() => send({ type: MESSAGE_PING }), PING_INTERVAL_MS);
+              handlers.onStatus('live');
+              continue;
+            }
+
+            handleMessage(message);
+          }
+        };
+
+        socket.onclose = () => {
+          clearInterval(pingTimer);
+          socket = null;
+          if (closed) return;
+
+          // Exponential backoff between reconnect attempts
+          attempts++;
+          const delay = Math.min(RECONNECT_BASE_MS * 2 ** (attempts - 1), RECONNECT_MAX_MS);
+          handlers.onStatus('reconnecting');
+          reconnectTimer = setTimeout(open, delay);
+        };
+      };
+
+      open();
+
+      return {
+        close() {
+          closed = true;
+          clearTimeout(reconnectTimer);
+          clearInterval(pingTimer);
+          socket?.close();
+          handlers.onStatus('closed');
+        }
+      };
+    }
+  };
+}
+
+// In-memory transport for tests and offline demos: call emit()/setStatus() to drive it
+export interface MockTransport extends LiveTransport {
+  emit(event: LiveEvent): void;
+  setStatus(status: LiveStatus): void;
+  subscriptions(): LiveSubscription[];
+}
+
+export function createMockTransport(): MockTransport {
+  let current: { subscriptions: LiveSubscription[]; handlers: LiveTransportHandlers } | null = null;
+
+  return {
+    connect(subscriptions, handlers) {
+      current = { subscriptions, handlers };
+      handlers.onStatus('live');
+      return {
+        close() {
+          current?.handlers.onStatus('closed');
+          current = null;
+        }
+      };
+    },
+    emit(event) {
+      current?.handlers.onEvent(event);
+    },
+    setStatus(status) {
+      current?.handlers.onStatus(status);
+    },
+    subscriptions() {
+      return current?.subscriptions ?? [];
+    }
+  };
+}
+
+// Normalized updates handed to the dashboard
+export interface LiveCallbacks {
+  onBakeryOperations(baker: string, operations: StakingOperation[]): void;
+  onStXTZOperations(operations: StakingOperation[]): void;
+  onReorg(level: number): void;
+  // Called after a dropped connection is re-established; events may have been missed
+  onReconnect(): void;
+  onStatus(status: LiveStatus): void;
+}
+
+// Turns applied stXTZ contract calls into operations. Withdrawal amounts may need TzKT lookups
+// and the current rate history, so the dashboard runs this in the pipeline worker.
+export type StXTZNormalizer = (calls: StXTZResponse[]) => Promise<StakingOperation[]>;
+
+// Subscribe to every configured baker and the stXTZ contract, normalizing raw events
+export function startLiveUpdates(config: DashboardConfig, transport: LiveTransport, normalizeStXTZ: StXTZNormalizer, callbacks: LiveCallbacks): LiveConnection {
+  const subscriptions: LiveSubscription[] = [
+    ...allBakers(config).map(baker => ({ address: baker, types: 'staking' as const })),
+    { address: config.contract, types: 'transaction' }
+  ];
+
+  let wasLive = false;
+
+  return transport.connect(subscriptions, {
+    onStatus(status) {
+      if (status === 'live' && wasLive) callbacks.onReconnect();
+      if (status === 'live') wasLive = true;
+      callbacks.onStatus(status);
+    },
+    async onEvent(event) {
+      if (event.kind === 'reorg') {
+        callbacks.onReorg(event.level);
+        return;
+      }
+
+      const { subscription, data } = event;
+      if (subscription.types === 'staking') {
+        const operations = normalizeBakeryOperations(data as BakeryResponse[], subscription.address);
+        if (operations.length > 0) callbacks.onBakeryOperations(subscription.address, operations);
+        return;
+      }
+
+      // Same server-side filters as the REST query: applied calls to the tracked entrypoints
+      const calls = (data as StXTZResponse[]).filter(op =>
+        op.status === 'applied' &&
+        ['deposit', 'request_withdrawal', 'finalize_withdrawal'].includes(op.parameter?.entrypoint)
+      );
+      if (calls.length === 0) return;
+
+      try {
+        const operations = await normalizeStXTZ(calls);
+        if (operations.length > 0) callbacks.onStXTZOperations(operations);
+      } catch (error) {
+        console.warn('Failed to process live stXTZ operations:', error);
+      }
+    }
+  });
+}
+
+// Unique identity of an operation, used to drop duplicates between REST sync and live events
+export function operationIdentity(op: StakingOperation): string {
+  return `${op.source}|${op.baker ?? ''}|${op.level}|${op.hash ?? ''}|${op.counter ?? ''}|${op.nonce ?? ''}|${op.type}`;
+}
+
+// Append operations that are not already present, keeping level order
+export function mergeOperations(existing: StakingOperation[], incoming: StakingOperation[]): StakingOperation[] {
+  const seen = new Set(existing.map(operationIdentity));
+  const added = incoming.filter(op => !seen.has(operationIdentity(op)));
+  if (added.length === 0) return existing;
+  return [...existing, ...added].sort((a, b) => a.level - b.level);
+}
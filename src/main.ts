@@ -1,252 +1,131 @@
 import './style.css';
-import { fetchBakeryStaking, fetchStXTZOperations, calculateStats, calculateWalletStats, fetchStXTZHolders } from './api';
-import type { WalletStats, StXTZHolder } from './api';
-import { createStakingChart, processChartData } from './chart';
+import { loadConfig } from './config';
+import { downloadFile } from './export';
+import { fixtureModeFromUrl } from './fixtures';
+import type { FixtureMode } from './fixtures';
+import type { LiveStatus } from './live';
+import { deriveData, isLive, loadDashboard, recordedFixtures, startLiveMode, startPipeline, stopLiveMode } from './app';
+import { createStore, initialState, watch } from './state';
+import type { AppState, Store } from './state';
+import { parseRoute, routeHref, startRouter } from './router';
+import type { Route } from './router';
+import { bakerUrl, shortenAddress } from './views/format';
+import { mountOverview } from './views/overview';
+import { mountQueue } from './views/queue';
+import { mountWallet } from './views/wallet';
+import { mountSettings } from './views/settings';
 
-// Format number with commas and 2 decimal places
-function formatTez(amount: number): string {
-  return amount.toLocaleString('en-US', { 
-    minimumFractionDigits: 2, 
-    maximumFractionDigits: 2 
-  }) + ' ꜩ';
+// The component for a route; each one shows its own loading and error states per section
+function mountRoute(container: HTMLElement, store: Store<AppState>, route: Route): () => void {
+  switch (route.name) {
+    case 'overview':
+      return mountOverview(container, store);
+    case 'queue':
+      return mountQueue(container, store);
+    case 'settings':
+      return mountSettings(container, store);
+    case 'wallet':
+      return mountWallet(container, store, route.address);
+  }
 }
 
-// Format number with commas
-function formatNumber(num: number): string {
-  return num.toLocaleString('en-US');
+// Reflect the live connection state in the header toggle
+function renderLiveStatus(button: HTMLElement, status: LiveStatus) {
+  const labels: Record<LiveStatus, string> = {
+    connecting: 'Connecting...',
+    live: 'Live',
+    reconnecting: 'Reconnecting...',
+    closed: 'Go Live'
+  };
+  button.textContent = labels[status];
+  button.className = `btn-secondary live-toggle ${status}`;
 }
 
-// Shorten wallet address
-function shortenAddress(address: string): string {
-  return `${address.slice(0, 6)}...${address.slice(-4)}`;
-}
+const NAV_LINKS: { name: Route['name']; label: string }[] = [
+  { name: 'overview', label: 'Overview' },
+  { name: 'queue', label: 'Withdrawal Queue' },
+  { name: 'settings', label: 'Settings' }
+];
 
-// Render stats to the DOM
-function renderStats(bakeryStats: ReturnType<typeof calculateStats>, stxtzStats: ReturnType<typeof calculateStats>, walletStats: WalletStats[]) {
-  const statsContainer = document.getElementById('stats')!;
-  const uniqueWallets = walletStats.length;
-  
-  statsContainer.innerHTML = `
-    <div class="stats-grid">
-      <div class="stat-section">
-        <h3>Bakery Staking (Raw Protocol)</h3>
-        <div class="stat-cards">
-          <div class="stat-card stake">
-            <span class="stat-label">Total Staked</span>
-            <span class="stat-value">${formatTez(bakeryStats.totalStaked)}</span>
-            <span class="stat-count">${formatNumber(bakeryStats.stakeCount)} operations</span>
-          </div>
-          <div class="stat-card unstake">
-            <span class="stat-label">Total Unstaked</span>
-            <span class="stat-value">${formatTez(bakeryStats.totalUnstaked)}</span>
-            <span class="stat-count">${formatNumber(bakeryStats.unstakeCount)} operations</span>
-          </div>
-          <div class="stat-card finalize">
-            <span class="stat-label">Total Finalized</span>
-            <span class="stat-value">${formatTez(bakeryStats.totalFinalized)}</span>
-            <span class="stat-count">${formatNumber(bakeryStats.finalizeCount)} finalizations</span>
-          </div>
-        </div>
-      </div>
-      
-      <div class="stat-section">
-        <h3>stXTZ Operations (Stacy.fi)</h3>
-        <div class="stat-cards">
-          <div class="stat-card stake">
-            <span class="stat-label">Total Deposited</span>
-            <span class="stat-value">${formatTez(stxtzStats.totalStaked)}</span>
-            <span class="stat-count">${formatNumber(stxtzStats.stakeCount)} deposits</span>
-          </div>
-          <div class="stat-card unstake">
-            <span class="stat-label">Withdrawals</span>
-            <span class="stat-value">${formatTez(stxtzStats.totalUnstaked)}</span>
-            <span class="stat-count">${formatNumber(stxtzStats.unstakeCount)} requests</span>
-          </div>
-          <div class="stat-card finalize">
-            <span class="stat-label">Total Finalized</span>
-            <span class="stat-value">${formatTez(stxtzStats.totalFinalized)}</span>
-            <span class="stat-count">${formatNumber(stxtzStats.finalizeCount)} finalizations</span>
-          </div>
-          <div class="stat-card wallets">
-            <span class="stat-label">Unique Wallets</span>
-            <span class="stat-value">${formatNumber(uniqueWallets)}</span>
-            <span class="stat-count">stXTZ users</span>
-          </div>
-        </div>
-      </div>
-    </div>
+// Render the page shell (header, navigation, footer) and the view for the current route
+function renderApp(store: Store<AppState>) {
+  const { config, fixtureMode } = store.get();
+
+  document.getElementById('app')!.innerHTML = `
+    <header>
+      <h1>stXTZ Staking Dashboard</h1>
+      <p class="subtitle">Visualizing staking activity for Stacy.fi${config.network !== 'mainnet' ? ` on ${config.network}` : ''}</p>
+      ${!fixtureMode ? '<button id="live-toggle" class="btn-secondary live-toggle closed">Go Live</button>' : ''}
+      ${fixtureMode?.kind === 'replay' ? '<span class="fixture-badge">Replaying recorded data</span>' : ''}
+      ${fixtureMode?.kind === 'record' ? '<button id="save-fixtures" class="btn-secondary live-toggle">Save fixtures</button>' : ''}
+      ${fixtureMode?.kind === 'record' ? '<div class="error-banner" id="save-fixtures-error" hidden></div>' : ''}
+      <nav class="main-nav">
+        ${NAV_LINKS.map(({ name, label }) => `<a href="#/${name === 'overview' ? '' : name}" data-route="${name}">${label}</a>`).join('')}
+      </nav>
+    </header>
+
+    <main id="view"></main>
+
+    <footer>
+      <p>
+        <a href="${bakerUrl(config)}" target="_blank">Baker: ${shortenAddress(config.baker)}</a> |
+        <a href="https://better-call.dev/${config.network}/${config.contract}" target="_blank">Contract: ${shortenAddress(config.contract)}</a>
+      </p>
+      <p class="credit">Data powered by <a href="${config.tzktApiBase}" target="_blank">TzKT API</a></p>
+    </footer>
   `;
-}
 
-// Render wallet leaderboard
-function renderWalletLeaderboard(walletStats: WalletStats[], holders: StXTZHolder[]) {
-  const container = document.getElementById('wallet-leaderboard')!;
-  
-  // Merge stats with holders
-  const statsMap = new Map(walletStats.map(w => [w.address, w]));
-  
-  // Combine data: prioritize holders (because they have current balance)
-  const leaderboardData = holders.map(holder => {
-    const stats = statsMap.get(holder.account.address);
-    return {
-      address: holder.account.address,
-      alias: holder.account.alias,
-      balance: parseFloat(holder.balance) / 1_000_000, // Convert to TEZ (assuming standard 6 decimals for FA1.2)
-      netPosition: stats ? stats.netPosition : 0,
-      totalDeposited: stats ? stats.totalDeposited : 0,
-      totalWithdrawn: stats ? stats.totalWithdrawn : 0
-    };
+  const view = document.getElementById('view')!;
+  const nav = document.querySelectorAll<HTMLAnchorElement>('[data-route]');
+  let unmount: (() => void) | null = null;
+
+  // Swap the view when the page changes; views re-render themselves after that
+  watch(store, [state => routeHref(state.route)], state => {
+    unmount?.();
+    unmount = mountRoute(view, store, state.route);
+    nav.forEach(link => link.classList.toggle('active', link.dataset.route === state.route.name));
   });
-  
-  // Add wallets from stats that aren't in holders (zero balance now)
-  const holderAddresses = new Set(holders.map(h => h.account.address));
-  const zeroBalanceWallets = walletStats
-    .filter(w => !holderAddresses.has(w.address))
-    .map(w => ({
-      address: w.address,
-      alias: undefined,
-      balance: 0,
-      netPosition: w.netPosition,
-      totalDeposited: w.totalDeposited,
-      totalWithdrawn: w.totalWithdrawn
-    }));
-    
-  // Combine and sort by balance (descending)
-  const fullList = [...leaderboardData, ...zeroBalanceWallets].sort((a, b) => b.balance - a.balance);
-  
-  let showAll = false;
-  
-  const renderTable = () => {
-    const limit = showAll ? fullList.length : 10;
-    const displayList = fullList.slice(0, limit);
-    
-    const rows = displayList.map((wallet, index) => `
-      <tr>
-        <td class="rank">${index + 1}</td>
-        <td class="address">
-          <a href="https://tzkt.io/${wallet.address}" target="_blank">
-            ${wallet.alias ? wallet.alias : shortenAddress(wallet.address)}
-          </a>
-        </td>
-        <td class="balance">${formatTez(wallet.balance)}</td>
-        <td class="net-position ${wallet.netPosition >= 0 ? 'positive' : 'negative'}">
-          ${wallet.netPosition >= 0 ? '+' : ''}${formatTez(wallet.netPosition)}
-        </td>
-        <td class="deposited">${formatTez(wallet.totalDeposited)}</td>
-        <td class="withdrawn">${formatTez(wallet.totalWithdrawn)}</td>
-      </tr>
-    `).join('');
-    
-    container.innerHTML = `
-      <h3>Top stXTZ Holders</h3>
-      <div class="table-container">
-        <table class="leaderboard-table">
-          <thead>
-            <tr>
-              <th>#</th>
-              <th>Wallet</th>
-              <th>Balance</th>
-              <th>Net Flow</th>
-              <th>Deposited</th>
-              <th>Withdrawn</th>
-            </tr>
-          </thead>
-          <tbody>
-            ${rows}
-          </tbody>
-        </table>
-      </div>
-      <div class="leaderboard-controls">
-        <button id="toggle-leaderboard" class="btn-secondary">
-          ${showAll ? 'Show Less' : `Show All (${fullList.length})`}
-        </button>
-      </div>
-    `;
-    
-    // Re-attach event listener
-    document.getElementById('toggle-leaderboard')?.addEventListener('click', () => {
-      showAll = !showAll;
-      renderTable();
+
+  const liveToggle = document.getElementById('live-toggle');
+  if (liveToggle) {
+    watch(store, [state => state.live], state => renderLiveStatus(liveToggle, state.live));
+    liveToggle.addEventListener('click', () => {
+      if (isLive()) {
+        stopLiveMode(store);
+      } else {
+        startLiveMode(store);
+      }
     });
-  };
-  
-  renderTable();
-}
+  }
 
-// Show loading state
-function showLoading() {
-  document.getElementById('app')!.innerHTML = `
-    <div class="loading">
-      <div class="spinner"></div>
-      <p>Loading staking data...</p>
-    </div>
-  `;
+  const saveFixtures = document.getElementById('save-fixtures') as HTMLButtonElement | null;
+  saveFixtures?.addEventListener('click', async () => {
+    const errorBanner = document.getElementById('save-fixtures-error')!;
+    saveFixtures.disabled = true;
+    errorBanner.hidden = true;
+    try {
+      const recording = await recordedFixtures();
+      if (recording) downloadFile(`tzkt-fixtures-${config.network}.json`, recording, 'application/json');
+    } catch (error) {
+      console.warn('Failed to save fixtures:', error);
+      errorBanner.textContent = `Could not save fixtures: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      errorBanner.hidden = false;
+    } finally {
+      saveFixtures.disabled = false;
+    }
+  });
 }
 
 // Main app
 async function init() {
-  showLoading();
-  
+  let config;
+  let fixtureMode: FixtureMode | null;
   try {
-    // Fetch data from both APIs in parallel
-    const [bakeryOps, stxtzOps, holders] = await Promise.all([
-      fetchBakeryStaking(),
-      fetchStXTZOperations(),
-      fetchStXTZHolders()
-    ]);
-    
-    console.log(`Fetched ${bakeryOps.length} bakery operations`);
-    console.log(`Fetched ${bakeryOps.length} bakery operations`);
-    console.log(`Fetched ${stxtzOps.length} stXTZ operations`);
-    console.log(`Fetched ${holders.length} stXTZ holders`);
-    
-    // Calculate stats
-    const bakeryStats = calculateStats(bakeryOps);
-    const stxtzStats = calculateStats(stxtzOps);
-    const walletStats = calculateWalletStats(stxtzOps);
-    
-    // Render the app
-    document.getElementById('app')!.innerHTML = `
-      <header>
-        <h1>stXTZ Staking Dashboard</h1>
-        <p class="subtitle">Visualizing staking activity for Stacy.fi</p>
-      </header>
-      
-      <main>
-        <section id="stats" class="stats-section"></section>
-        
-        <section class="chart-section">
-          <div class="chart-container">
-            <canvas id="stakingChart"></canvas>
-          </div>
-        </section>
-        
-        <section id="wallet-leaderboard"></section>
-      </main>
-      
-      <footer>
-        <p>
-          <a href="https://bafo.fafolab.xyz/?address=tz3W7k9v3uniY1f2HQRKxymJybNvH3FgvZ5N" target="_blank">Baker: tz3W7k...vZ5N</a> | 
-          <a href="https://better-call.dev/mainnet/KT1FRN2RmitUkyyovtjRMrU1G9zwKzgESXm8" target="_blank">Contract: KT1FRN...Xm8</a>
-        </p>
-        <p class="credit">Data powered by <a href="https://api.tzkt.io" target="_blank">TzKT API</a></p>
-      </footer>
-    `;
-    
-    // Render stats
-    renderStats(bakeryStats, stxtzStats, walletStats);
-    
-    // Render wallet leaderboard
-    renderWalletLeaderboard(walletStats, holders);
-    
-    // Process chart data with separate bakery and stXTZ operations
-    const chartData = processChartData(bakeryOps, stxtzOps);
-    
-    // Create chart
-    createStakingChart('stakingChart', chartData);
-    
+    config = await loadConfig();
+    fixtureMode = fixtureModeFromUrl();
+    await startPipeline(config, fixtureMode);
   } catch (error) {
-    console.error('Failed to load data:', error);
+    console.error('Failed to load configuration:', error);
     document.getElementById('app')!.innerHTML = `
       <div class="error">
         <h2>Failed to load data</h2>
@@ -254,6 +133,27 @@ async function init() {
         <button onclick="location.reload()">Retry</button>
       </div>
     `;
+    return;
+  }
+  console.log(`Using ${config.network} config: baker ${config.baker}, contract ${config.contract}`);
+
+  const store = createStore(initialState(config, fixtureMode, parseRoute()));
+  deriveData(store);
+  renderApp(store);
+  startRouter(route => {
+    window.scrollTo(0, 0);
+    store.set({ route });
+  });
+
+  // Cancel the initial load if the user navigates away mid-way
+  const loadController = new AbortController();
+  window.addEventListener('pagehide', () => loadController.abort(), { once: true });
+
+  await loadDashboard(store, loadController.signal);
+
+  // ?live=1 starts in live mode (not with fixtures: live events would bypass them)
+  if (!fixtureMode && new URLSearchParams(window.location.search).get('live') === '1') {
+    startLiveMode(store);
   }
 }
 
@@ -0,0 +1,179 @@
+import type { PageProgress, StakingOperation, StXTZResponse, TokenTransfer, WalletStats } from './api';
+import type { ChartData, ChartWindow } from './chartData';
+import type { DashboardConfig } from './config';
+import type { ConcentrationPoint } from './concentration';
+import type { CycleInfo, ProtocolTiming } from './cycles';
+import type { ClassifiedTransfer } from './dex';
+import type { FixtureMode } from './fixtures';
+import type { HealthSnapshot } from './health';
+import type { RateHistory } from './rates';
+import type { BakerCycleRewards, ReconciliationPoint } from './reconciliation';
+import type { DashboardData, SourceKey } from './state';
+import type { BalancePoint } from './wallet';
+import type { WithdrawalQueue } from './withdrawals';
+
+// Fetching, normalizing and aggregating run in a Web Worker (pipeline.worker.ts), so paging
+// through tens of thousands of records never blocks rendering. The main thread sends jobs
+// and gets back their progress and results:
+//
+//   page → worker   { type: 'run', id, kind, input }    start a job
+//                   { type: 'cancel', id }              abort it
+//   worker → page   { type: 'progress', id, progress }  pages fetched so far
+//                   { type: 'done', id, output }
+//                   { type: 'failed', id, error, aborted }
+//
+// Messages are structured-cloned, so bigint amounts and Maps cross as they are.
+
+// Every job, with what it takes and what it resolves to
+export interface PipelineJobs {
+  // Apply the config and fixture mode; runs once, before any other job
+  init: { input: { config: DashboardConfig; fixtureMode: FixtureMode | null }; output: null };
+  // Fetch one data source; resolves to the data fields it fills
+  source: { input: { key: SourceKey }; output: Partial<DashboardData> };
+  walletTransfers: { input: { address: string }; output: TokenTransfer[] };
+  // Normalize stXTZ contract calls received in live mode, valuing withdrawals from `rates`
+  liveOperations: { input: { calls: StXTZResponse[]; rates: RateHistory }; output: StakingOperation[] };
+  walletStats: {
+    input: { stxtzOps: StakingOperation[]; transfers: ClassifiedTransfer[]; rates: RateHistory };
+    output: WalletStats[];
+  };
+  withdrawalQueue: {
+    input: { stxtzOps: StakingOperation[]; bakeryOps: StakingOperation[]; cycles: CycleInfo[]; timing: ProtocolTiming };
+    output: WithdrawalQueue;
+  };
+  // Daily collateralization from the supply (mints and burns are picked from `transfers`)
+  healthHistory: {
+    input: { transfers: ClassifiedTransfer[]; contractHistory: BalancePoint[]; rates: RateHistory; withdrawalQueue: WithdrawalQueue };
+    output: HealthSnapshot[];
+  };
+  reconciliation: {
+    input: { bakeryOps: StakingOperation[]; bakerRewards: BakerCycleRewards[]; consensusRightsDelay: number };
+    output: ReconciliationPoint[];
+  };
+  concentration: { input: { transfers: ClassifiedTransfer[] }; output: ConcentrationPoint[] };
+  chart: {
+    input: {
+      bakeryOps: StakingOperation[];
+      stxtzOps: StakingOperation[];
+      comparisonOps: Map<string, StakingOperation[]>;
+      chartWindow: ChartWindow;
+      cycles: CycleInfo[];
+    };
+    output: ChartData;
+  };
+  // The fixture file recorded so far in ?record=1 mode, null in other modes
+  recording: { input: null; output: string | null };
+}
+
+export type JobKind = keyof PipelineJobs;
+export type JobInput<K extends JobKind> = PipelineJobs[K]['input'];
+export type JobOutput<K extends JobKind> = PipelineJobs[K]['output'];
+
+export type PipelineRequest =
+  | { [K in JobKind]: { type: 'run'; id: number; kind: K; input: JobInput<K> } }[JobKind]
+  | { type: 'cancel'; id: number };
+
+export type PipelineResponse =
+  | { type: 'progress'; id: number; progress: PageProgress }
+  | { type: 'done'; id: number; output: JobOutput<JobKind> }
+  | { type: 'failed'; id: number; error: string; aborted: boolean };
+
+export interface JobOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: PageProgress) => void;
+}
+
+export interface Pipeline {
+  run<K extends JobKind>(kind: K, input: JobInput<K>, options?: JobOptions): Promise<JobOutput<K>>;
+  terminate(): void;
+}
+
+// A job that failed in the worker; the original error class does not survive the message
+export class PipelineError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PipelineError';
+  }
+}
+
+interface PendingJob {
+  resolve: (output: JobOutput<JobKind>) => void;
+  reject: (error: unknown) => void;
+  onProgress?: (progress: PageProgress) => void;
+}
+
+function abortError(): DOMException {
+  return new DOMException('The operation was aborted', 'AbortError');
+}
+
+export function createPipeline(
+  worker: Worker = new Worker(new URL('./pipeline.worker.ts', import.meta.url), { type: 'module' })
+): Pipeline {
+  const pending = new Map<number, PendingJob>();
+  let nextId = 1;
+
+  worker.addEventListener('message', (event: MessageEvent<PipelineResponse>) => {
+    const message = event.data;
+    const job = pending.get(message.id);
+    // Jobs cancelled on this side were settled already
+    if (!job) return;
+
+    switch (message.type) {
+      case 'progress':
+        job.onProgress?.(message.progress);
+        break;
+      case 'done':
+        pending.delete(message.id);
+        job.resolve(message.output);
+        break;
+      case 'failed':
+        pending.delete(message.id);
+        job.reject(message.aborted ? abortError() : new PipelineError(message.error));
+        break;
+    }
+  });
+
+  // A worker that fails to start or crashes takes every running job down with it
+  worker.addEventListener('error', (event) => {
+    event.preventDefault();
+    const error = new PipelineError(event.message || 'The data pipeline worker failed');
+    pending.forEach(job => job.reject(error));
+    pending.clear();
+  });
+
+  const post = (request: PipelineRequest) => worker.postMessage(request);
+
+  return {
+    run(kind, input, { signal, onProgress } = {}) {
+      if (signal?.aborted) return Promise.reject(abortError());
+      const id = nextId++;
+
+      return new Promise((resolve, reject) => {
+        const onAbort = () => {
+          if (!pending.delete(id)) return;
+          post({ type: 'cancel', id });
+          reject(abortError());
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        pending.set(id, {
+          resolve: (output) => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve(output as JobOutput<typeof kind>);
+          },
+          reject: (error) => {
+            signal?.removeEventListener('abort', onAbort);
+            reject(error);
+          },
+          onProgress
+        });
+        post({ type: 'run', id, kind, input } as PipelineRequest);
+      });
+    },
+    terminate() {
+      worker.terminate();
+      pending.forEach(job => job.reject(abortError()));
+      pending.clear();
+    }
+  };
+}
@@ -0,0 +1,173 @@
+import { fetchBakeryStaking, fetchStXTZOperations, fetchStXTZHolders, fetchBakerAliases, fetchWalletTokenTransfers, fetchTokenSupply, fetchTokenTransfers, normalizeStXTZOperations, calculateWalletStats } from './api';
+import type { FetchOptions, PageProgress } from './api';
+import { processChartData } from './chartData';
+import { allBakers } from './config';
+import type { DashboardConfig } from './config';
+import { fetchCycles, fetchProtocolTiming } from './cycles';
+import { fetchBakerRewards, fetchStakerBalance, reconcileBakerBalance } from './reconciliation';
+import { buildHealthHistory, fetchBalanceHistory } from './health';
+import { concentrationHistory } from './concentration';
+import { buildWithdrawalQueue } from './withdrawals';
+import { fetchDexActivity, classifyTransfers, dexPriceSeries } from './dex';
+import { loadFixtures, createReplayTransport, createRecordingTransport, serializeRecording } from './fixtures';
+import type { FixtureMode } from './fixtures';
+import { isAbortError, setHttpTransport } from './http';
+import { setPersistence } from './store';
+import type { DashboardData, SourceKey } from './state';
+import type { JobInput, JobKind, JobOutput, PipelineRequest, PipelineResponse } from './pipeline';
+
+// The pipeline worker: runs the jobs described in pipeline.ts. Each running job has its
+// own AbortController, so a cancel stops its outstanding requests.
+
+let config: DashboardConfig | null = null;
+
+// Responses kept in ?record=1 mode
+let recording: Map<string, unknown> | null = null;
+
+const running = new Map<number, AbortController>();
+
+function post(response: PipelineResponse) {
+  self.postMessage(response);
+}
+
+function requireConfig(): DashboardConfig {
+  if (!config) throw new Error('The data pipeline was not initialized');
+  return config;
+}
+
+// Answer TzKT requests from recorded fixtures, or record them; caches are off in both modes
+async function applyFixtureMode(mode: FixtureMode | null) {
+  if (!mode) return;
+  setPersistence(false);
+  if (mode.kind === 'replay') {
+    setHttpTransport(createReplayTransport(await loadFixtures(mode.url)));
+    console.log(`Replaying TzKT fixtures from ${mode.url}`);
+  } else {
+    recording = new Map();
+    setHttpTransport(createRecordingTransport(recording));
+    console.log('Recording TzKT responses');
+  }
+}
+
+// Fetch one source; resolves to the data fields it fills
+async function fetchSource(config: DashboardConfig, key: SourceKey, options: FetchOptions): Promise<Partial<DashboardData>> {
+  switch (key) {
+    case 'bakeryOps':
+      return { bakeryOps: await fetchBakeryStaking(config, config.baker, options) };
+    case 'stxtzOps': {
+      const { operations, rates } = await fetchStXTZOperations(config, options);
+      return { stxtzOps: operations, rates };
+    }
+    case 'holders':
+      return { holders: await fetchStXTZHolders(config, options) };
+    case 'comparisonOps': {
+      // One progress line for all compared bakers
+      const progress = new Map<string, PageProgress>();
+      const results = await Promise.all(config.compareBakers.map(baker =>
+        fetchBakeryStaking(config, baker, {
+          signal: options.signal,
+          onProgress: (bakerProgress) => {
+            progress.set(baker, bakerProgress);
+            const all = Array.from(progress.values());
+            options.onProgress?.({
+              pages: all.reduce((sum, entry) => sum + entry.pages, 0),
+              records: all.reduce((sum, entry) => sum + entry.records, 0),
+              done: all.length === config.compareBakers.length && all.every(entry => entry.done)
+            });
+          }
+        })
+      ));
+      return { comparisonOps: new Map(config.compareBakers.map((baker, index) => [baker, results[index]])) };
+    }
+    case 'aliases':
+      return { aliases: await fetchBakerAliases(config, allBakers(config), options) };
+    case 'cycles':
+      return { cycles: await fetchCycles(config, options) };
+    case 'timing':
+      return { timing: await fetchProtocolTiming(config, options) };
+    case 'bakerRewards':
+      return { bakerRewards: await fetchBakerRewards(config, config.baker, options) };
+    case 'bakerBalance':
+      return { bakerBalance: await fetchStakerBalance(config, config.baker, options) };
+    case 'contractBalance':
+      return { contractBalance: await fetchStakerBalance(config, config.contract, options) };
+    case 'tokenSupply':
+      return { tokenSupply: await fetchTokenSupply(config, options) };
+    case 'transfers': {
+      // Pool calls are only looked up at levels where stXTZ moved through a pool
+      const tokenTransfers = await fetchTokenTransfers(config, options);
+      const dexActivity = await fetchDexActivity(config, config.dexPools, tokenTransfers, options);
+      const transfers = classifyTransfers(tokenTransfers, config.dexPools, dexActivity);
+      return { transfers, dexPrices: dexPriceSeries(transfers) };
+    }
+    case 'contractHistory':
+      return { contractHistory: await fetchBalanceHistory(config, config.contract, options) };
+  }
+}
+
+type JobHandlers = { [K in JobKind]: (input: JobInput<K>, options: FetchOptions) => Promise<JobOutput<K>> };
+
+const handlers: JobHandlers = {
+  async init(input) {
+    config = input.config;
+    await applyFixtureMode(input.fixtureMode);
+    return null;
+  },
+  source: ({ key }, options) => fetchSource(requireConfig(), key, options),
+  walletTransfers: ({ address }, options) => fetchWalletTokenTransfers(requireConfig(), address, options),
+  liveOperations: ({ calls, rates }, options) => normalizeStXTZOperations(requireConfig(), calls, rates, options.signal),
+  // Aggregations are synchronous: a cancel only discards their result
+  async walletStats({ stxtzOps, transfers, rates }) {
+    return calculateWalletStats(stxtzOps, transfers, rates);
+  },
+  async withdrawalQueue({ stxtzOps, bakeryOps, cycles, timing }) {
+    return buildWithdrawalQueue(stxtzOps, bakeryOps, cycles, timing);
+  },
+  async healthHistory({ transfers, contractHistory, rates, withdrawalQueue }) {
+    const supplyTransfers = transfers.filter(transfer => transfer.kind === 'mint' || transfer.kind === 'burn');
+    return buildHealthHistory(supplyTransfers, contractHistory, rates, withdrawalQueue);
+  },
+  async reconciliation({ bakeryOps, bakerRewards, consensusRightsDelay }) {
+    return reconcileBakerBalance(bakeryOps, bakerRewards, consensusRightsDelay);
+  },
+  async concentration({ transfers }) {
+    return concentrationHistory(transfers);
+  },
+  async chart({ bakeryOps, stxtzOps, comparisonOps, chartWindow, cycles }) {
+    return processChartData(bakeryOps, stxtzOps, comparisonOps, chartWindow, cycles);
+  },
+  async recording() {
+    return recording ? serializeRecording(recording) : null;
+  }
+};
+
+async function run<K extends JobKind>(id: number, kind: K, input: JobInput<K>) {
+  const controller = new AbortController();
+  running.set(id, controller);
+  try {
+    const handler = handlers[kind] as JobHandlers[K];
+    const output = await handler(input, {
+      signal: controller.signal,
+      onProgress: progress => post({ type: 'progress', id, progress })
+    });
+    if (!controller.signal.aborted) post({ type: 'done', id, output });
+  } catch (error) {
+    post({
+      type: 'failed',
+      id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      aborted: controller.signal.aborted || isAbortError(error)
+    });
+  } finally {
+    running.delete(id);
+  }
+}
+
+self.addEventListener('message', (event: MessageEvent<PipelineRequest>) => {
+  const request = event.data;
+  if (request.type === 'cancel') {
+    running.get(request.id)?.abort();
+  } else {
+    run(request.id, request.kind, request.input);
+  }
+});
@@ -0,0 +1,191 @@
+import type { StakingOperation } from './api';
+import { mulRate, ratio } from './amounts';
+
+// stXTZ -> XTZ exchange rate history.
+//
+// Points come from two places:
+//   - withdrawal queue items in contract storage (xtz_amount / stxtz_amount, or the
+//     item's fixed-point `price` when the amounts are missing)
+//   - request_withdrawal operations whose XTZ value was read exactly from storage
+// Between points the rate is interpolated by level, which is what makes a valuation
+// "estimated" rather than "exact".
+
+export interface RatePoint {
+  level: number;
+  timestamp: string;
+  rate: number; // XTZ per stXTZ
+}
+
+// Sorted by level, one point per level
+export type RateHistory = RatePoint[];
+
+export interface RateLookup {
+  rate: number;
+  exact: boolean; // true when a point exists at exactly this level
+}
+
+// Queue item fields as they appear in storage; any of them may be missing
+export interface QueueItemAmounts {
+  xtz_amount: string;
+  stxtz_amount: string;
+  price?: string;
+  block_level?: string;
+}
+
+// Guess the fixed-point scale of `price` from items that carry both amounts and a price.
+// Returns null if no item allows a comparison.
+export function detectPriceScale(items: QueueItemAmounts[]): number | null {
+  for (const item of items) {
+    const price = Number(item.price);
+    const xtz = Number(item.xtz_amount);
+    const stxtz = Number(item.stxtz_amount);
+    if (!(price > 0 && xtz > 0 && stxtz > 0)) continue;
+    // Round the ratio to the nearest power of ten (e.g. 1e6, 1e12, 1e18)
+    return 10 ** Math.round(Math.log10(price / (xtz / stxtz)));
+  }
+  return null;
+}
+
+// Turn queue items into rate points, keyed by the level each item was created at.
+// `timestampAt` resolves a level to its block time (items only carry the level).
+export function ratePointsFromQueueItems(
+  items: QueueItemAmounts[],
+  timestampAt: (level: number) => string,
+  priceScale: number | null = detectPriceScale(items)
+): RatePoint[] {
+  const points: RatePoint[] = [];
+  for (const item of items) {
+    const level = parseInt(item.block_level ?? '', 10);
+    if (!Number.isFinite(level)) continue;
+
+    const xtz = Number(item.xtz_amount);
+    const stxtz = Number(item.stxtz_amount);
+    if (xtz > 0 && stxtz > 0) {
+      points.push({ level, timestamp: timestampAt(level), rate: xtz / stxtz });
+    } else if (priceScale && Number(item.price) > 0) {
+      points.push({ level, timestamp: timestampAt(level), rate: Number(item.price) / priceScale });
+    }
+  }
+  return points;
+}
+
+// Rate points from withdrawal requests whose XTZ value is exact
+export function ratePointsFromOperations(operations: StakingOperation[]): RatePoint[] {
+  return operations
+    .filter(op => op.type === 'unstake' && op.exact && op.stxtzAmount && op.stxtzAmount > 0n)
+    .map(op => ({ level: op.level, timestamp: op.timestamp, rate: ratio(op.amount, op.stxtzAmount!)! }));
+}
+
+// Merge point sets into a level-sorted history; later sets win on the same level
+export function buildRateHistory(...pointSets: RatePoint[][]): RateHistory {
+  const byLevel = new Map<number, RatePoint>();
+  for (const points of pointSets) {
+    for (const point of points) {
+      if (Number.isFinite(point.rate) && point.rate > 0) byLevel.set(point.level, point);
+    }
+  }
+  return Array.from(byLevel.values()).sort((a, b) => a.level - b.level);
+}
+
+// Rate at a level: exact on a known point, linear interpolation between points,
+// nearest point outside the known range, and 1:1 if the history is empty
+export function rateAt(history: RateHistory, level: number): RateLookup {
+  if (history.length === 0) return { rate: 1, exact: false };
+
+  // Binary search for the first point at or above the level
+  let low = 0;
+  let high = history.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (history[mid].level < level) low = mid + 1;
+    else high = mid;
+  }
+
+  const next = history[low];
+  if (next && next.level === level) return { rate: next.rate, exact: true };
+
+  const prev = history[low - 1];
+  if (!prev) return { rate: next.rate, exact: false };
+  if (!next) return { rate: prev.rate, exact: false };
+
+  const t = (level - prev.level) / (next.level - prev.level);
+  return { rate: prev.rate + (next.rate - prev.rate) * t, exact: false };
+}
+
+// Re-value estimated withdrawal requests with the best available rate
+export function revalueWithdrawals(operations: StakingOperation[], history: RateHistory): StakingOperation[] {
+  if (history.length === 0) return operations;
+  return operations.map(op => {
+    if (op.type !== 'unstake' || op.exact || !op.stxtzAmount) return op;
+    const { rate } = rateAt(history, op.level);
+    return { ...op, amount: mulRate(op.stxtzAmount, rate) };
+  });
+}
+
+const MS_PER_DAY = 86_400_000;
+const DAYS_PER_YEAR = 365;
+
+// One rate per UTC day (the last known rate at the end of that day), gaps carried forward
+export interface DailyRate {
+  date: string; // YYYY-MM-DD
+  rate: number;
+}
+
+export function dailyRateSeries(history: RateHistory): DailyRate[] {
+  if (history.length === 0) return [];
+
+  const lastRateByDate = new Map<string, number>();
+  for (const point of history) {
+    lastRateByDate.set(point.timestamp.split('T')[0], point.rate);
+  }
+
+  const series: DailyRate[] = [];
+  const first = Date.parse(history[0].timestamp.split('T')[0]);
+  const last = Date.parse(history[history.length - 1].timestamp.split('T')[0]);
+  let rate = history[0].rate;
+  for (let day = first; day <= last; day += MS_PER_DAY) {
+    const date = new Date(day).toISOString().split('T')[0];
+    rate = lastRateByDate.get(date) ?? rate;
+    series.push({ date, rate });
+  }
+  return series;
+}
+
+// Compound annualized yield implied by the rate moving from `fromRate` to `toRate` in `days`
+export function annualizedYield(fromRate: number, toRate: number, days: number): number | null {
+  if (days <= 0 || fromRate <= 0) return null;
+  return (toRate / fromRate) ** (DAYS_PER_YEAR / days) - 1;
+}
+
+// Trailing annualized yield over a window of days for every day of the series (null until enough history)
+export function rollingYield(series: DailyRate[], windowDays: number): (number | null)[] {
+  return series.map((day, index) =>
+    index >= windowDays ? annualizedYield(series[index - windowDays].rate, day.rate, windowDays) : null
+  );
+}
+
+export interface YieldSummary {
+  currentRate: number | null;
+  apy7d: number | null;
+  apy30d: number | null;
+  apyAllTime: number | null;
+}
+
+// Headline numbers: current rate and 7-day, 30-day and since-inception annualized yield
+export function summarizeYield(history: RateHistory): YieldSummary {
+  const series = dailyRateSeries(history);
+  if (series.length === 0) {
+    return { currentRate: null, apy7d: null, apy30d: null, apyAllTime: null };
+  }
+
+  const last = series.length - 1;
+  const trailing = (days: number) =>
+    last >= days ? annualizedYield(series[last - days].rate, series[last].rate, days) : null;
+
+  return {
+    currentRate: series[last].rate,
+    apy7d: trailing(7),
+    apy30d: trailing(30),
+    apyAllTime: annualizedYield(series[0].rate, series[last].rate, last)
+  };
+}
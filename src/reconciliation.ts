@@ -0,0 +1,154 @@
+import { tzktUrl } from './config';
+import type { DashboardConfig } from './config';
+import { fetchJson } from './http';
+import type { FetchOptions, StakingOperation } from './api';
+import { MUTEZ_PER_TEZ, maxMutez, parseMutez } from './amounts';
+
+// Baker balances as TzKT reports them, reconciled against what the dashboard derives
+// from staking operations.
+//
+// The derived balance (stake - finalize) misses rewards, slashing and any stake that existed
+// before the first fetched operation, so the two series are plotted side by side. TzKT's
+// per-cycle balance is the snapshot the cycle's rights were computed from, taken at the end of
+// cycle - consensusRightsDelay - 1; it is shifted back to that cycle to line up with the
+// derived balance.
+
+export interface BakerCycleRewards {
+  cycle: number;
+  stakedBalance: bigint; // own + external staked mutez in the rights snapshot used for this cycle
+  rewards: bigint;       // mutez earned in this cycle, net of slashing
+}
+
+// Current staking balances of one account, in mutez
+export interface StakerBalance {
+  address: string;
+  balance: bigint;               // full balance, including staked and unstaked XTZ
+  stakedBalance: bigint;         // staked by the account itself
+  unstakedBalance: bigint;       // unstaked, waiting to be finalized
+  externalStakedBalance: bigint; // staked with this account as baker by others (bakers only)
+}
+
+export interface ReconciliationPoint {
+  cycle: number;
+  actual: bigint | null; // null when TzKT has no snapshot for the cycle yet
+  derived: bigint;
+  rewards: bigint;
+}
+
+// stXTZ deposits against the contract's stake at the baker
+export interface BackingCheck {
+  implied: bigint;    // deposits - finalized withdrawals
+  actual: bigint;     // contract's staked + unstaked balance at the baker
+  difference: bigint; // actual - implied; rewards make this positive
+  flagged: boolean;   // the baker holds less than the deposits imply
+}
+
+// A shortfall below this share of the implied stake (or 1 XTZ) is treated as rounding
+const BACKING_TOLERANCE_PER_MILLE = 5n;
+
+// Reward fields of TzKT's baker rewards (names differ between protocol eras) and losses
+const REWARD_FIELD = /^(block|endorsement|attestation|dalAttestation)Rewards|^blockFees$/;
+const LOSS_FIELD = /^double\w*Lost/;
+
+interface AccountResponse {
+  address: string;
+  balance?: number;
+  stakedBalance?: number;
+  unstakedBalance?: number;
+  externalStakedBalance?: number;
+}
+
+// Net rewards of one baker rewards entry, in mutez
+function entryRewards(entry: Record<string, unknown>): bigint {
+  let total = 0n;
+  for (const [field, value] of Object.entries(entry)) {
+    if (typeof value !== 'number') continue;
+    if (REWARD_FIELD.test(field)) total += parseMutez(value);
+    else if (LOSS_FIELD.test(field)) total -= parseMutez(value);
+  }
+  return total;
+}
+
+// Fetch the baker's staked balance and rewards for every cycle, oldest first
+export async function fetchBakerRewards(config: DashboardConfig, baker: string, options: FetchOptions = {}): Promise<BakerCycleRewards[]> {
+  const entries = await fetchJson<Record<string, unknown>[]>(
+    tzktUrl(config, `rewards/bakers/${baker}?limit=10000`),
+    { signal: options.signal }
+  );
+  options.onProgress?.({ pages: 1, records: entries.length, done: true });
+
+  return entries
+    .map(entry => ({
+      cycle: entry.cycle as number,
+      stakedBalance: parseMutez(entry.ownStakedBalance as number) + parseMutez(entry.externalStakedBalance as number),
+      rewards: entryRewards(entry)
+    }))
+    .sort((a, b) => a.cycle - b.cycle);
+}
+
+// Fetch an account's current staked and unstaked balances
+export async function fetchStakerBalance(config: DashboardConfig, address: string, options: FetchOptions = {}): Promise<StakerBalance> {
+  const account = await fetchJson<AccountResponse>(tzktUrl(config, `accounts/${address}`), { signal: options.signal });
+  return {
+    address,
+    balance: parseMutez(account.balance),
+    stakedBalance: parseMutez(account.stakedBalance),
+    unstakedBalance: parseMutez(account.unstakedBalance),
+    externalStakedBalance: parseMutez(account.externalStakedBalance)
+  };
+}
+
+// Actual vs derived baker balance at the end of every cycle with data, oldest first.
+// Operations need their cycle assigned.
+export function reconcileBakerBalance(
+  bakeryOps: StakingOperation[],
+  rewards: BakerCycleRewards[],
+  consensusRightsDelay: number
+): ReconciliationPoint[] {
+  // Snapshot for cycle c is the balance at the end of c - delay - 1
+  const actualByCycle = new Map(rewards.map(entry => [entry.cycle - consensusRightsDelay - 1, entry.stakedBalance]));
+  const rewardsByCycle = new Map(rewards.map(entry => [entry.cycle, entry.rewards]));
+
+  const netByCycle = new Map<number, bigint>();
+  for (const op of bakeryOps) {
+    if (op.cycle === undefined) continue;
+    if (op.type === 'stake') netByCycle.set(op.cycle, (netByCycle.get(op.cycle) ?? 0n) + op.amount);
+    else if (op.type === 'finalize') netByCycle.set(op.cycle, (netByCycle.get(op.cycle) ?? 0n) - op.amount);
+  }
+
+  const known = [...netByCycle.keys(), ...actualByCycle.keys()];
+  if (known.length === 0) return [];
+  const first = Math.min(...known);
+  const last = Math.max(...known);
+
+  const points: ReconciliationPoint[] = [];
+  let derived = 0n;
+  for (let cycle = first; cycle <= last; cycle++) {
+    derived += netByCycle.get(cycle) ?? 0n;
+    points.push({
+      cycle,
+      actual: actualByCycle.get(cycle) ?? null,
+      derived,
+      rewards: rewardsByCycle.get(cycle) ?? 0n
+    });
+  }
+  return points;
+}
+
+// Compare what stXTZ deposits imply the contract has staked with what the baker holds for it
+export function checkStXTZBacking(stxtzOps: StakingOperation[], contract: StakerBalance): BackingCheck {
+  const implied = stxtzOps.reduce((sum, op) => {
+    if (op.type === 'stake') return sum + op.amount;
+    if (op.type === 'finalize') return sum - op.amount;
+    return sum;
+  }, 0n);
+  const actual = contract.stakedBalance + contract.unstakedBalance;
+  const difference = actual - implied;
+
+  return {
+    implied,
+    actual,
+    difference,
+    flagged: difference < -maxMutez(MUTEZ_PER_TEZ, implied * BACKING_TOLERANCE_PER_MILLE / 1000n)
+  };
+}
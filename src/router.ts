@@ -0,0 +1,48 @@
+// Hash routes of the dashboard.
+//
+//   #/                   overview
+//   #/queue              withdrawal queue and per-cycle activity
+//   #/settings           configuration, data sources and live mode
+//   #/wallet/<address>   one wallet's position and history
+//
+// Unknown hashes show the overview.
+
+export type Route =
+  | { name: 'overview' }
+  | { name: 'queue' }
+  | { name: 'settings' }
+  | { name: 'wallet'; address: string };
+
+// Wallet addresses accepted in #/wallet/<address>
+const WALLET_ROUTE = /^#\/wallet\/((?:tz[1-4]|KT1)[1-9A-HJ-NP-Za-km-z]{33})$/;
+
+export function parseRoute(hash: string = window.location.hash): Route {
+  const wallet = hash.match(WALLET_ROUTE);
+  if (wallet) return { name: 'wallet', address: wallet[1] };
+  if (hash === '#/queue') return { name: 'queue' };
+  if (hash === '#/settings') return { name: 'settings' };
+  return { name: 'overview' };
+}
+
+export function routeHref(route: Route): string {
+  switch (route.name) {
+    case 'overview':
+      return '#/';
+    case 'wallet':
+      return `#/wallet/${route.address}`;
+    default:
+      return `#/${route.name}`;
+  }
+}
+
+// Routes are equal when they show the same page
+export function sameRoute(a: Route, b: Route): boolean {
+  return routeHref(a) === routeHref(b);
+}
+
+// Report the route on every hash change; returns a function that stops listening
+export function startRouter(onRoute: (route: Route) => void): () => void {
+  const listener = () => onRoute(parseRoute());
+  window.addEventListener('hashchange', listener);
+  return () => window.removeEventListener('hashchange', listener);
+}
@@ -0,0 +1,193 @@
+import type { HolderSet, PageProgress, StakingOperation, TokenTransfer, WalletStats } from './api';
+import type { DashboardConfig } from './config';
+import { DEFAULT_CHART_WINDOW } from './chartData';
+import type { ChartWindow } from './chartData';
+import type { CycleInfo, ProtocolTiming } from './cycles';
+import type { ClassifiedTransfer, DexPricePoint } from './dex';
+import type { Alert } from './alerts';
+import type { FixtureMode } from './fixtures';
+import type { ConcentrationPoint } from './concentration';
+import type { HealthSnapshot } from './health';
+import { DEFAULT_LEADERBOARD_QUERY } from './leaderboard';
+import type { LeaderboardQuery } from './leaderboard';
+import type { LiveStatus } from './live';
+import type { RateHistory } from './rates';
+import type { BakerCycleRewards, ReconciliationPoint, StakerBalance } from './reconciliation';
+import type { Route } from './router';
+import type { BalancePoint } from './wallet';
+import type { WithdrawalQueue } from './withdrawals';
+
+// Application state and the store views subscribe to.
+//
+// State is replaced, never mutated: a change swaps in new objects for what changed and
+// keeps the identity of everything else. Views watch the slices they render (see watch)
+// and re-render only when one of those is replaced.
+
+// Everything the dashboard renders from
+export interface DashboardData {
+  bakeryOps: StakingOperation[];
+  stxtzOps: StakingOperation[];
+  holders: HolderSet;
+  comparisonOps: Map<string, StakingOperation[]>;
+  aliases: Record<string, string>;
+  rates: RateHistory;
+  cycles: CycleInfo[];
+  timing: ProtocolTiming;
+  bakerRewards: BakerCycleRewards[];
+  bakerBalance: StakerBalance;
+  contractBalance: StakerBalance;
+  tokenSupply: bigint;
+  transfers: ClassifiedTransfer[]; // every stXTZ transfer, oldest first
+  dexPrices: DexPricePoint[];
+  contractHistory: BalancePoint[];
+  // Derived in the pipeline worker whenever their inputs are replaced (see deriveData)
+  walletStats: WalletStats[];                 // from stxtzOps, transfers and rates
+  withdrawalQueue: WithdrawalQueue;           // from stxtzOps, bakeryOps, cycles and timing
+  healthHistory: HealthSnapshot[];            // from transfers, contractHistory, rates and withdrawalQueue
+  reconciliation: ReconciliationPoint[];      // from bakeryOps, bakerRewards and timing
+  concentration: ConcentrationPoint[];        // from transfers
+}
+
+// Data sources, each loaded, failed and retried on its own. A source fills the data
+// field of the same name (stXTZ operations also fill `rates`, transfers `dexPrices`).
+export type SourceKey =
+  | 'bakeryOps' | 'stxtzOps' | 'holders' | 'comparisonOps' | 'aliases' | 'cycles' | 'timing'
+  | 'bakerRewards' | 'bakerBalance' | 'contractBalance' | 'tokenSupply' | 'transfers' | 'contractHistory';
+
+export const SOURCE_LABELS: Record<SourceKey, string> = {
+  bakeryOps: 'Bakery operations',
+  stxtzOps: 'stXTZ operations',
+  holders: 'stXTZ holders',
+  comparisonOps: 'Compared bakers',
+  aliases: 'Baker aliases',
+  cycles: 'Cycles',
+  timing: 'Protocol timing',
+  bakerRewards: 'Baker rewards',
+  bakerBalance: 'Baker balance',
+  contractBalance: 'Contract balance',
+  tokenSupply: 'Token supply',
+  transfers: 'stXTZ transfers and DEX activity',
+  contractHistory: 'Contract balance history'
+};
+
+export const SOURCE_KEYS = Object.keys(SOURCE_LABELS) as SourceKey[];
+
+export type SourceState = 'loading' | 'ready' | 'error';
+
+// Load state of one data source
+export interface SourceStatus {
+  state: SourceState;
+  progress: PageProgress | null;
+  error: string | null;     // why the last attempt failed
+  syncedAt: string | null;  // when it last loaded successfully (ISO), kept across failed retries
+}
+
+export type RangePreset = '7d' | '30d' | '90d' | 'all' | 'custom';
+
+// What the user narrowed the views down to; survives re-renders and live updates
+export interface ViewFilters {
+  rangePreset: RangePreset;
+  chartWindow: ChartWindow;
+  leaderboard: LeaderboardQuery;
+  concentrationAt: string; // a date (YYYY-MM-DD) or a level, empty for the latest
+}
+
+export interface AppState {
+  config: DashboardConfig;
+  fixtureMode: FixtureMode | null;
+  route: Route;
+  data: Partial<DashboardData>;           // whatever has loaded so far
+  sources: Record<SourceKey, SourceStatus>;
+  filters: ViewFilters;
+  alerts: Map<string, Alert>;             // alert feed by alert key
+  alertLevel: number | null;              // level the alert rules last evaluated up to, null before the first run
+  walletTransfers: Map<string, TokenTransfer[]>; // stXTZ transfers of visited wallets
+  live: LiveStatus;
+}
+
+export type Listener<T> = (state: T, previous: T) => void;
+
+export interface Store<T> {
+  get(): T;
+  set(changes: Partial<T> | ((state: T) => Partial<T>)): void;
+  subscribe(listener: Listener<T>): () => void;
+}
+
+export function createStore<T extends object>(initial: T): Store<T> {
+  let state = initial;
+  const listeners = new Set<Listener<T>>();
+
+  return {
+    get: () => state,
+    set(changes) {
+      const previous = state;
+      state = { ...state, ...(typeof changes === 'function' ? changes(state) : changes) };
+      // Copy: listeners may unsubscribe (e.g. a view unmounting another) while being notified
+      for (const listener of [...listeners]) listener(state, previous);
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    }
+  };
+}
+
+// Render now, then again whenever one of the selected slices is replaced.
+// Returns a function that stops watching.
+export function watch<T>(store: Store<T>, selectors: ((state: T) => unknown)[], render: (state: T) => void): () => void {
+  render(store.get());
+  return store.subscribe((state, previous) => {
+    if (selectors.some(select => !Object.is(select(state), select(previous)))) render(state);
+  });
+}
+
+export function initialState(config: DashboardConfig, fixtureMode: FixtureMode | null, route: Route): AppState {
+  return {
+    config,
+    fixtureMode,
+    route,
+    data: {},
+    sources: Object.fromEntries(SOURCE_KEYS.map(key => [key, { state: 'loading', progress: null, error: null, syncedAt: null }])) as Record<SourceKey, SourceStatus>,
+    filters: {
+      rangePreset: 'all',
+      chartWindow: DEFAULT_CHART_WINDOW,
+      leaderboard: DEFAULT_LEADERBOARD_QUERY,
+      concentrationAt: ''
+    },
+    alerts: new Map(),
+    alertLevel: null,
+    walletTransfers: new Map(),
+    live: 'closed'
+  };
+}
+
+// Replace some of the loaded data
+export function updateData(store: Store<AppState>, changes: (data: Partial<DashboardData>) => Partial<DashboardData>) {
+  store.set(state => ({ data: { ...state.data, ...changes(state.data) } }));
+}
+
+// Whether every listed field has been filled at least once
+export function hasData(state: AppState, keys: (keyof DashboardData)[]): boolean {
+  return keys.every(key => state.data[key] !== undefined);
+}
+
+// Data fields a source fills: its own, plus `rates` for stXTZ operations and `dexPrices` for transfers
+export type SourceFields<K extends SourceKey> =
+  | K
+  | (K extends 'stxtzOps' ? 'rates' : never)
+  | (K extends 'transfers' ? 'dexPrices' : never);
+
+// Data with the listed fields loaded; every other field may still be missing
+export type LoadedData<K extends keyof DashboardData> = Pick<DashboardData, K> & Partial<DashboardData>;
+
+// The data once the listed fields are in. Throws if one is still missing: views get their
+// data through their section (see views/section.ts), which only mounts them after that.
+export function loadedData<K extends keyof DashboardData>(state: AppState, keys: K[]): LoadedData<K> {
+  const missing = keys.filter(key => state.data[key] === undefined);
+  if (missing.length > 0) throw new Error(`Data read before it loaded: ${missing.join(', ')}`);
+  return state.data as LoadedData<K>;
+}
+
+export function setFilters(store: Store<AppState>, changes: Partial<ViewFilters>) {
+  store.set(state => ({ filters: { ...state.filters, ...changes } }));
+}
@@ -0,0 +1,242 @@
+import type { StakingOperation } from './api';
+
+// Persistent operation store backed by IndexedDB.
+//
+// Operations are grouped into "streams" (one per network + baker, one per network + contract).
+// Each stream remembers the highest level it has synced, so later loads only ask TzKT
+// for operations above that level instead of re-downloading the full history.
+//
+// Smaller caches (withdrawal amounts, rate points, finished cycles) are kept as key/value
+// records next to them. Everything here runs in the pipeline worker, which has no localStorage.
+
+const DB_NAME = 'stxtz-dashboard';
+// v2: operations carry exact/stxtzAmount - older records are dropped and re-synced
+// v3: amounts are bigint mutez instead of float XTZ
+// v4: key/value caches, formerly in localStorage
+const DB_VERSION = 4;
+const OPERATIONS_STORE = 'operations';
+const SYNC_STORE = 'sync';
+const CACHE_STORE = 'cache';
+const STREAM_INDEX = 'stream';
+
+// Re-fetch the last few levels on every sync in case TzKT reorganized the chain head
+const REORG_DEPTH = 2;
+
+interface StoredOperation extends StakingOperation {
+  key: string;    // stream|level|hash|counter|nonce
+  stream: string;
+}
+
+export interface SyncState {
+  stream: string;
+  lastLevel: number;
+  syncedAt: string; // ISO timestamp of the last successful sync
+}
+
+// Fetches operations strictly above `fromLevel` (or the full history when null)
+export type FetchSince = (fromLevel: number | null) => Promise<StakingOperation[]>;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Off in fixture modes: every load then issues the same requests, whatever was cached before
+let persistence = true;
+
+// Turn persistent caches (operations and key/value caches) on or off for this page load
+export function setPersistence(enabled: boolean): void {
+  persistence = enabled;
+}
+
+export function isPersistent(): boolean {
+  return persistence;
+}
+
+// Wrap an IDBRequest in a promise
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Resolve once a transaction has committed
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'));
+  });
+}
+
+// Open (and create/upgrade) the database once per page load
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (!persistence) {
+      reject(new Error('Persistence is disabled'));
+      return;
+    }
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (event.oldVersion < 3) {
+        for (const name of [OPERATIONS_STORE, SYNC_STORE]) {
+          if (db.objectStoreNames.contains(name)) db.deleteObjectStore(name);
+        }
+      }
+      if (!db.objectStoreNames.contains(OPERATIONS_STORE)) {
+        const operations = db.createObjectStore(OPERATIONS_STORE, { keyPath: 'key' });
+        operations.createIndex(STREAM_INDEX, 'stream');
+      }
+      if (!db.objectStoreNames.contains(SYNC_STORE)) {
+        db.createObjectStore(SYNC_STORE, { keyPath: 'stream' });
+      }
+      if (!db.objectStoreNames.contains(CACHE_STORE)) {
+        db.createObjectStore(CACHE_STORE);
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a retry on the next call if opening failed
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+}
+
+// Unique record key for an operation within a stream
+function operationKey(stream: string, op: StakingOperation): string {
+  return `${stream}|${op.level}|${op.hash ?? ''}|${op.counter ?? ''}|${op.nonce ?? ''}`;
+}
+
+// Stream id for a baker's staking operations
+export function bakeryStream(network: string, baker: string): string {
+  return `${network}:bakery:${baker}`;
+}
+
+// Stream id for the stXTZ contract's operations
+export function stxtzStream(network: string, contract: string): string {
+  return `${network}:stxtz:${contract}`;
+}
+
+export async function getSyncState(stream: string): Promise<SyncState | null> {
+  const db = await openDatabase();
+  const tx = db.transaction(SYNC_STORE, 'readonly');
+  const state = await promisify<SyncState | undefined>(tx.objectStore(SYNC_STORE).get(stream));
+  return state ?? null;
+}
+
+// Load every stored operation of a stream, oldest first
+export async function loadOperations(stream: string): Promise<StakingOperation[]> {
+  const db = await openDatabase();
+  const tx = db.transaction(OPERATIONS_STORE, 'readonly');
+  const index = tx.objectStore(OPERATIONS_STORE).index(STREAM_INDEX);
+  const records = await promisify<StoredOperation[]>(index.getAll(IDBKeyRange.only(stream)));
+
+  return records
+    .map(({ key: _key, stream: _stream, ...op }) => op)
+    .sort((a, b) => a.level - b.level);
+}
+
+// Replace everything above `fromLevel` with `operations` and record the new sync state
+export async function saveOperations(stream: string, fromLevel: number | null, operations: StakingOperation[]): Promise<SyncState> {
+  const db = await openDatabase();
+  const tx = db.transaction([OPERATIONS_STORE, SYNC_STORE], 'readwrite');
+  const store = tx.objectStore(OPERATIONS_STORE);
+  const syncStore = tx.objectStore(SYNC_STORE);
+
+  const previous = await promisify<SyncState | undefined>(syncStore.get(stream));
+
+  // Drop records that were re-fetched (they may have been reorganized away)
+  if (fromLevel !== null) {
+    const cursorRequest = store.index(STREAM_INDEX).openCursor(IDBKeyRange.only(stream));
+    await new Promise<void>((resolve, reject) => {
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) {
+          resolve();
+          return;
+        }
+        if ((cursor.value as StoredOperation).level > fromLevel) {
+          cursor.delete();
+        }
+        cursor.continue();
+      };
+      cursorRequest.onerror = () => reject(cursorRequest.error);
+    });
+  }
+
+  for (const op of operations) {
+    const record: StoredOperation = { ...op, key: operationKey(stream, op), stream };
+    store.put(record);
+  }
+
+  const lastLevel = operations.reduce((max, op) => Math.max(max, op.level), previous?.lastLevel ?? 0);
+  const state: SyncState = { stream, lastLevel, syncedAt: new Date().toISOString() };
+  syncStore.put(state);
+
+  await transactionDone(tx);
+  return state;
+}
+
+// Remove all stored operations and sync state for a stream (forces a full re-sync)
+export async function clearStream(stream: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction([OPERATIONS_STORE, SYNC_STORE], 'readwrite');
+  const keys = await promisify(tx.objectStore(OPERATIONS_STORE).index(STREAM_INDEX).getAllKeys(IDBKeyRange.only(stream)));
+  for (const key of keys) {
+    tx.objectStore(OPERATIONS_STORE).delete(key);
+  }
+  tx.objectStore(SYNC_STORE).delete(stream);
+  await transactionDone(tx);
+}
+
+// Read a key/value cache entry; null if it was never written
+export async function readCache<T>(key: string): Promise<T | null> {
+  const db = await openDatabase();
+  const tx = db.transaction(CACHE_STORE, 'readonly');
+  const value = await promisify<T | undefined>(tx.objectStore(CACHE_STORE).get(key));
+  return value ?? null;
+}
+
+export async function writeCache(key: string, value: unknown): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(CACHE_STORE, 'readwrite');
+  tx.objectStore(CACHE_STORE).put(value, key);
+  await transactionDone(tx);
+}
+
+// Load a stream from IndexedDB, fetch only what is new, persist it and return the full history.
+// Falls back to a plain full fetch if IndexedDB is unavailable or broken.
+export async function syncOperations(stream: string, fetchSince: FetchSince): Promise<StakingOperation[]> {
+  let state: SyncState | null;
+  try {
+    state = await getSyncState(stream);
+  } catch (error) {
+    console.warn('Operation store unavailable, fetching full history:', error);
+    return fetchSince(null);
+  }
+
+  const fromLevel = state ? Math.max(0, state.lastLevel - REORG_DEPTH) : null;
+  const fresh = await fetchSince(fromLevel);
+
+  try {
+    await saveOperations(stream, fromLevel, fresh);
+    const operations = await loadOperations(stream);
+    console.log(`Synced ${stream}: ${fresh.length} new records above level ${fromLevel ?? 0}, ${operations.length} stored`);
+    return operations;
+  } catch (error) {
+    console.warn(`Failed to persist ${stream}, re-fetching full history:`, error);
+    return fromLevel === null ? fresh : fetchSince(null);
+  }
+}
@@ -0,0 +1,74 @@
+import { inject } from 'vitest';
+import { fetchBakeryStaking, fetchStXTZOperations, fetchTokenTransfers } from './api';
+import type { StakingOperation } from './api';
+import { loadConfig } from './config';
+import type { DashboardConfig } from './config';
+import { assignCycles, fetchCycles } from './cycles';
+import type { CycleInfo } from './cycles';
+import { classifyTransfers, fetchDexActivity } from './dex';
+import type { ClassifiedTransfer } from './dex';
+import { createRecordingTransport, createReplayTransport, serializeRecording } from './fixtures';
+import type { FixtureFile } from './fixtures';
+import { networkTransport, setHttpTransport } from './http';
+import type { RateHistory } from './rates';
+import { setPersistence } from './store';
+
+// Test data: the dashboard data loaded from the mock TzKT server (mock/data.json, started by
+// mock/vitest-setup.mjs) the way the pipeline worker loads it, or replayed from the fixture
+// file recorded while doing so.
+
+declare module 'vitest' {
+  export interface ProvidedContext {
+    tzktApiBase: string;
+  }
+}
+
+export interface TestData {
+  config: DashboardConfig;
+  cycles: CycleInfo[];
+  bakeryOps: StakingOperation[];
+  stxtzOps: StakingOperation[];
+  rates: RateHistory;
+  transfers: ClassifiedTransfer[];
+}
+
+async function fetchTestData(config: DashboardConfig): Promise<TestData> {
+  const cycles = await fetchCycles(config);
+  const bakeryOps = await fetchBakeryStaking(config, config.baker);
+  const { operations: stxtzOps, rates } = await fetchStXTZOperations(config);
+  const tokenTransfers = await fetchTokenTransfers(config);
+  const dexActivity = await fetchDexActivity(config, config.dexPools, tokenTransfers);
+  return {
+    config,
+    cycles,
+    bakeryOps: assignCycles(bakeryOps, cycles),
+    stxtzOps: assignCycles(stxtzOps, cycles),
+    rates,
+    transfers: classifyTransfers(tokenTransfers, config.dexPools, dexActivity)
+  };
+}
+
+// Load from the mock server, recording every response; persistent caches are off as in fixture modes
+export async function loadTestData(): Promise<{ data: TestData; fixtures: FixtureFile }> {
+  setPersistence(false);
+  const recording = new Map<string, unknown>();
+  setHttpTransport(createRecordingTransport(recording, networkTransport));
+  try {
+    const config = await loadConfig(`?config=${inject('tzktApiBase')}/config.json`);
+    const data = await fetchTestData(config);
+    return { data, fixtures: JSON.parse(serializeRecording(recording)) };
+  } finally {
+    setHttpTransport(networkTransport);
+  }
+}
+
+// Load the same data from a recorded fixture file, without the mock server
+export async function replayTestData(config: DashboardConfig, fixtures: FixtureFile): Promise<TestData> {
+  setPersistence(false);
+  setHttpTransport(createReplayTransport(fixtures));
+  try {
+    return await fetchTestData(config);
+  } finally {
+    setHttpTransport(networkTransport);
+  }
+}
@@ -0,0 +1,116 @@
+import { calculateStats } from '../api';
+import type { StakingOperation, StakingStats } from '../api';
+import { computeChartData, computeWalletStats } from '../app';
+import { NO_FILTERS, filterOperations, filterTransfers, operationRows, walletStatsRows, stakingStatsRows, chartDataRows, filterSuffix, downloadRows } from '../export';
+import type { ExportFilters, ExportFormat, ExportRow } from '../export';
+import type { AppState, LoadedData, Store } from '../state';
+import { bakerName } from './format';
+import type { SectionData, SectionFields, SectionSources } from './section';
+
+// Export picker shown on the overview and wallet pages. Files are built on click from the
+// latest state, narrowed by the chart's date range and, on a wallet page, its wallet.
+
+type ExportKind = 'operations' | 'wallets' | 'stats' | 'chart';
+
+// Sources the exports read from. Operations are required; without the others the files
+// leave out compared bakers and transfers, and fall back to short addresses.
+export const EXPORT_SOURCES = {
+  needs: ['bakeryOps', 'stxtzOps'],
+  uses: ['comparisonOps', 'transfers', 'cycles', 'aliases']
+} satisfies SectionSources;
+
+const EXPORT_LABELS: Record<ExportKind, string> = {
+  operations: 'Operations',
+  wallets: 'Wallet stats',
+  stats: 'Staking summaries',
+  chart: 'Chart series'
+};
+
+// Filters currently applied to the view
+function activeFilters(state: AppState): ExportFilters {
+  const { chartWindow } = state.filters;
+  return { from: chartWindow.from, to: chartWindow.to, wallet: state.route.name === 'wallet' ? state.route.address : null };
+}
+
+// Build the rows of one export from the dashboard data and the active filters; wallet stats
+// and chart series are aggregated in the pipeline worker
+async function exportRows(state: AppState, data: LoadedData<SectionFields<typeof EXPORT_SOURCES>>, kind: ExportKind, filters: ExportFilters): Promise<ExportRow[]> {
+  const { config } = state;
+  const aliases = state.data.aliases ?? {};
+  const allComparisonOps = state.data.comparisonOps ?? new Map<string, StakingOperation[]>();
+  const bakeryOps = filterOperations(data.bakeryOps, filters);
+  const stxtzOps = filterOperations(data.stxtzOps, filters);
+  const comparisonOps = new Map(Array.from(allComparisonOps, ([baker, ops]) => [baker, filterOperations(ops, filters)] as [string, StakingOperation[]]));
+
+  switch (kind) {
+    case 'operations':
+      return operationRows([...bakeryOps, ...Array.from(comparisonOps.values()).flat(), ...stxtzOps]);
+    case 'wallets': {
+      // Counterparties of the wallet's transfers get stats too; only the wallet itself is exported
+      const walletStats = await computeWalletStats({ stxtzOps, transfers: filterTransfers(state.data.transfers ?? [], filters), rates: data.rates });
+      return walletStatsRows(walletStats.filter(stats => filters.wallet === null || stats.address === filters.wallet));
+    }
+    case 'stats':
+      return stakingStatsRows(new Map<string, StakingStats>([
+        [bakerName(config.baker, aliases), calculateStats(bakeryOps)],
+        ...Array.from(comparisonOps, ([baker, ops]) => [bakerName(baker, aliases), calculateStats(ops)] as [string, StakingStats]),
+        ['stXTZ', calculateStats(stxtzOps)]
+      ]));
+    case 'chart': {
+      // Balances are cumulative, so the chart needs the history before the window too
+      const walletOnly = { ...NO_FILTERS, wallet: filters.wallet };
+      const chartData = await computeChartData({
+        bakeryOps: filterOperations(data.bakeryOps, walletOnly),
+        stxtzOps: filterOperations(data.stxtzOps, walletOnly),
+        comparisonOps: new Map(Array.from(allComparisonOps, ([baker, ops]) => [baker, filterOperations(ops, walletOnly)] as [string, StakingOperation[]])),
+        chartWindow: { ...state.filters.chartWindow, from: filters.from, to: filters.to },
+        cycles: state.data.cycles ?? []
+      });
+      const bakerNames = Object.fromEntries(config.compareBakers.map(baker => [baker, bakerName(baker, aliases)]));
+      return chartDataRows(chartData, bakerNames);
+    }
+  }
+}
+
+export function mountExportPanel(container: HTMLElement, store: Store<AppState>, loaded: SectionData<typeof EXPORT_SOURCES>): () => void {
+  const kinds = Object.keys(EXPORT_LABELS) as ExportKind[];
+
+  container.innerHTML = `
+    <h3>Export</h3>
+    <div class="leaderboard-controls export-controls">
+      <select class="text-input" data-export-kind>
+        ${kinds.map(kind => `<option value="${kind}">${EXPORT_LABELS[kind]}</option>`).join('')}
+      </select>
+      <button class="btn-secondary" data-export-format="csv">CSV</button>
+      <button class="btn-secondary" data-export-format="json">JSON</button>
+    </div>
+    <div class="error-banner" data-export-error hidden></div>
+  `;
+
+  const select = container.querySelector<HTMLSelectElement>('[data-export-kind]')!;
+  const errorBanner = container.querySelector<HTMLElement>('[data-export-error]')!;
+  container.querySelectorAll<HTMLButtonElement>('[data-export-format]').forEach(button => {
+    button.addEventListener('click', async () => {
+      const state = store.get();
+      const kind = select.value as ExportKind;
+      const format = button.dataset.exportFormat as ExportFormat;
+      const filters = activeFilters(state);
+      button.disabled = true;
+      errorBanner.hidden = true;
+      try {
+        const rows = await exportRows(state, loaded(state), kind, filters);
+        downloadRows(`stxtz-${kind}-${state.config.network}${filterSuffix(filters)}`, rows, format);
+        console.log(`Exported ${rows.length} ${EXPORT_LABELS[kind].toLowerCase()} rows as ${format.toUpperCase()}`);
+      } catch (error) {
+        console.warn(`Failed to export ${EXPORT_LABELS[kind].toLowerCase()}:`, error);
+        errorBanner.textContent = `Could not export ${EXPORT_LABELS[kind].toLowerCase()}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        errorBanner.hidden = false;
+      } finally {
+        button.disabled = false;
+      }
+    });
+  });
+
+  // Nothing to re-render: every click reads the latest state
+  return () => {};
+}
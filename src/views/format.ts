@@ -0,0 +1,50 @@
+import { explorerUrl } from '../config';
+import type { DashboardConfig } from '../config';
+import type { WithdrawalState } from '../withdrawals';
+
+// Text helpers shared by the views (amounts are formatted by ../amounts)
+
+// Format number with commas
+export function formatNumber(num: number): string {
+  return num.toLocaleString('en-US');
+}
+
+// Format a yield fraction as a percentage, or a dash when unknown
+export function formatPercent(value: number | null): string {
+  return value === null ? '—' : `${(value * 100).toFixed(2)}%`;
+}
+
+export function formatSignedPercent(value: number): string {
+  return `${value >= 0 ? '+' : ''}${formatPercent(value)}`;
+}
+
+// Shorten wallet address
+export function shortenAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+// Format an ISO timestamp as a short UTC date/time
+export function formatDate(timestamp: string | null): string {
+  return timestamp ? timestamp.replace('T', ' ').slice(0, 16) : '—';
+}
+
+// Display name for a baker: TzKT alias if known, otherwise the short address
+export function bakerName(address: string, aliases: Record<string, string>): string {
+  return aliases[address] ?? shortenAddress(address);
+}
+
+// Baker page: BaFo only indexes mainnet, fall back to the TzKT explorer elsewhere
+export function bakerUrl(config: DashboardConfig): string {
+  return config.network === 'mainnet'
+    ? `https://bafo.fafolab.xyz/?address=${config.baker}`
+    : explorerUrl(config, config.baker);
+}
+
+export const WITHDRAWAL_STATE_LABELS: Record<WithdrawalState, string> = {
+  pending: 'Pending',
+  finalizable: 'Finalizable',
+  finalized: 'Finalized'
+};
+
+// Marker for amounts valued at an estimated exchange rate
+export const ESTIMATE_MARK = ' <span class="estimate" title="Valued at the estimated exchange rate">≈</span>';
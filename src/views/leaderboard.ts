@@ -0,0 +1,240 @@
+import type { HolderSet, WalletStats } from '../api';
+import { explorerUrl } from '../config';
+import type { DashboardConfig } from '../config';
+import { formatTez, formatSignedTez } from '../amounts';
+import { buildLeaderboardRows, queryLeaderboard } from '../leaderboard';
+import type { LeaderboardPage, LeaderboardQuery, LeaderboardRow, LeaderboardSortKey } from '../leaderboard';
+import { setFilters, watch } from '../state';
+import type { AppState, Store } from '../state';
+import { formatDate, formatNumber, shortenAddress } from './format';
+import type { SectionData, SectionSources } from './section';
+
+// Wallet leaderboard: searchable, filterable, sortable and paged; long pages are virtualized.
+// Balances are only known for loaded holders; with an incomplete holder set, wallets
+// missing from it are shown with an unknown balance rather than as emptied out.
+
+const LEADERBOARD_COLUMNS: { key: LeaderboardSortKey; label: string; title?: string }[] = [
+  { key: 'balance', label: 'Balance' },
+  { key: 'netPosition', label: 'Net Flow' },
+  { key: 'totalDeposited', label: 'Deposited' },
+  { key: 'totalWithdrawn', label: 'Withdrawn' },
+  { key: 'netTransferred', label: 'Transfers / DEX', title: 'Peer transfers, DEX swaps and liquidity changes, valued at the redemption rate' },
+  { key: 'firstSeen', label: 'First Seen' },
+  { key: 'lastActive', label: 'Last Active' }
+];
+
+const LEADERBOARD_PAGE_SIZES = [25, 100, 1000, Infinity];
+
+// Pages longer than this only render the rows scrolled into view
+const VIRTUALIZE_AFTER = 100;
+const LEADERBOARD_ROW_HEIGHT = 44; // px, fixed for virtualized rows in style.css
+const VIRTUAL_OVERSCAN = 10;
+
+// Render one leaderboard row
+function leaderboardRowHtml(config: DashboardConfig, wallet: LeaderboardRow, rank: number): string {
+  return `
+    <tr>
+      <td class="rank">${rank}</td>
+      <td class="address">
+        <a href="#/wallet/${wallet.address}">
+          ${wallet.alias ? wallet.alias : shortenAddress(wallet.address)}
+        </a>
+        <a href="${explorerUrl(config, wallet.address)}" target="_blank" class="external-link" title="Open in explorer">↗</a>
+      </td>
+      <td class="balance">${wallet.balance === null ? '<span title="Not in the loaded holder list">—</span>' : formatTez(wallet.balance)}</td>
+      <td class="net-position ${wallet.netPosition >= 0n ? 'positive' : 'negative'}">
+        ${wallet.netPosition >= 0n ? '+' : ''}${formatTez(wallet.netPosition)}
+      </td>
+      <td class="deposited">${formatTez(wallet.totalDeposited)}</td>
+      <td class="withdrawn">${formatTez(wallet.totalWithdrawn)}</td>
+      <td class="${wallet.netTransferred >= 0n ? 'deposited' : 'withdrawn'}">${wallet.netTransferred === 0n ? '—' : formatSignedTez(wallet.netTransferred)}</td>
+      <td class="date">${formatDate(wallet.firstSeen).slice(0, 10)}</td>
+      <td class="date">${formatDate(wallet.lastActive).slice(0, 10)}</td>
+    </tr>
+  `;
+}
+
+// Until the holder list loads (or after it failed) no balance is known
+const NO_HOLDERS: HolderSet = { holders: [], expected: null, complete: false };
+
+// Explain why balances may be missing (a failed holder load is reported by the section)
+function holderNotice(holderSet: HolderSet): string {
+  const { holders, complete } = holderSet;
+  if (holderSet === NO_HOLDERS) {
+    return '<div class="leaderboard-notice">stXTZ holders are not loaded - balances are unknown</div>';
+  }
+  if (!complete) {
+    return `<div class="leaderboard-notice">Showing ${formatNumber(holders.length)} of ${formatNumber(holderSet.expected ?? holders.length)} holders - balances of other wallets are unknown</div>`;
+  }
+  return '';
+}
+
+// Wallet stats are required; without transfers they leave out DEX and peer flows, and
+// without holders balances are unknown
+export const LEADERBOARD_SOURCES = {
+  needs: ['stxtzOps'],
+  uses: ['transfers', 'holders'],
+  derived: ['walletStats']
+} satisfies SectionSources;
+
+export function mountLeaderboard(container: HTMLElement, store: Store<AppState>, loaded: SectionData<typeof LEADERBOARD_SOURCES>): () => void {
+  const { config } = store.get();
+  const query = () => store.get().filters.leaderboard;
+
+  let rows: LeaderboardRow[] = [];
+  let rowsFrom: { walletStats: WalletStats[]; holders: HolderSet } | null = null;
+  let page: LeaderboardPage | null = null;
+
+  // Controls are rendered once so the search box keeps focus and input across live updates
+  container.innerHTML = `
+    <h3>Top stXTZ Holders</h3>
+    <div id="leaderboard-notice"></div>
+    <div class="leaderboard-filters">
+      <input id="leaderboard-search" type="search" class="text-input" placeholder="Search address or alias" spellcheck="false" />
+      <input id="leaderboard-min-balance" type="number" min="0" class="text-input number-input" placeholder="Min balance (stXTZ)" />
+      <input id="leaderboard-min-flow" type="number" class="text-input number-input" placeholder="Min net flow (XTZ)" />
+      <select id="leaderboard-page-size" class="text-input">
+        ${LEADERBOARD_PAGE_SIZES.map(size => `
+          <option value="${size}" ${size === query().pageSize ? 'selected' : ''}>${Number.isFinite(size) ? `${size} per page` : 'All rows'}</option>
+        `).join('')}
+      </select>
+    </div>
+    <div id="leaderboard-scroll" class="table-container">
+      <table class="leaderboard-table">
+        <thead>
+          <tr id="leaderboard-head"></tr>
+        </thead>
+        <tbody id="leaderboard-body"></tbody>
+      </table>
+    </div>
+    <div id="leaderboard-pager" class="leaderboard-controls"></div>
+  `;
+
+  const scroll = container.querySelector<HTMLElement>('#leaderboard-scroll')!;
+  const head = container.querySelector<HTMLElement>('#leaderboard-head')!;
+  const body = container.querySelector<HTMLElement>('#leaderboard-body')!;
+  const pager = container.querySelector<HTMLElement>('#leaderboard-pager')!;
+  const notice = container.querySelector<HTMLElement>('#leaderboard-notice')!;
+
+  // Filters are kept in the store, so they are restored when the overview is shown again
+  const { search, minBalance, minNetFlow } = query();
+  container.querySelector<HTMLInputElement>('#leaderboard-search')!.value = search;
+  container.querySelector<HTMLInputElement>('#leaderboard-min-balance')!.value = minBalance === null ? '' : String(minBalance);
+  container.querySelector<HTMLInputElement>('#leaderboard-min-flow')!.value = minNetFlow === null ? '' : String(minNetFlow);
+
+  // Render the rows of the current page; long pages only render the visible window plus spacers
+  const renderBody = () => {
+    if (!page) return;
+    const virtual = page.rows.length > VIRTUALIZE_AFTER;
+    scroll.classList.toggle('virtual', virtual);
+
+    let start = 0;
+    let end = page.rows.length;
+    if (virtual) {
+      start = Math.max(0, Math.floor(scroll.scrollTop / LEADERBOARD_ROW_HEIGHT) - VIRTUAL_OVERSCAN);
+      end = Math.min(page.rows.length, start + Math.ceil(scroll.clientHeight / LEADERBOARD_ROW_HEIGHT) + 2 * VIRTUAL_OVERSCAN);
+    }
+
+    const spacer = (count: number) => count > 0
+      ? `<tr class="spacer" style="height: ${count * LEADERBOARD_ROW_HEIGHT}px"><td colspan="${LEADERBOARD_COLUMNS.length + 2}"></td></tr>`
+      : '';
+    const { offset } = page;
+    const html = page.rows.slice(start, end)
+      .map((wallet, index) => leaderboardRowHtml(config, wallet, offset + start + index + 1))
+      .join('');
+
+    body.innerHTML = html
+      ? spacer(start) + html + spacer(page.rows.length - end)
+      : `<tr><td colspan="${LEADERBOARD_COLUMNS.length + 2}" class="empty">No wallets match</td></tr>`;
+  };
+
+  // Apply a query change; anything but paging starts over at the first page
+  const setQuery = (changes: Partial<LeaderboardQuery>) => {
+    scroll.scrollTop = 0;
+    setFilters(store, { leaderboard: { ...query(), page: 0, ...changes } });
+  };
+
+  const numberOrNull = (id: string) => {
+    const value = container.querySelector<HTMLInputElement>(`#${id}`)!.value;
+    return value === '' ? null : Number(value);
+  };
+
+  container.querySelector('#leaderboard-search')!.addEventListener('input', (event) => {
+    setQuery({ search: (event.target as HTMLInputElement).value });
+  });
+  container.querySelector('#leaderboard-min-balance')!.addEventListener('input', () => {
+    setQuery({ minBalance: numberOrNull('leaderboard-min-balance') });
+  });
+  container.querySelector('#leaderboard-min-flow')!.addEventListener('input', () => {
+    setQuery({ minNetFlow: numberOrNull('leaderboard-min-flow') });
+  });
+  container.querySelector('#leaderboard-page-size')!.addEventListener('change', (event) => {
+    setQuery({ pageSize: Number((event.target as HTMLSelectElement).value) });
+  });
+
+  // Headers and pager are re-rendered on every update - listen on their containers
+  head.addEventListener('click', (event) => {
+    const header = (event.target as HTMLElement).closest<HTMLElement>('[data-sort]');
+    if (!header) return;
+    const sort = header.dataset.sort as LeaderboardSortKey;
+    const direction = sort === query().sort && query().direction === 'desc' ? 'asc' : 'desc';
+    setQuery({ sort, direction });
+  });
+  pager.addEventListener('click', (event) => {
+    const button = (event.target as HTMLElement).closest<HTMLButtonElement>('[data-page]');
+    if (!button || button.disabled) return;
+    setQuery({ page: Number(button.dataset.page) });
+  });
+
+  let frame: number | null = null;
+  scroll.addEventListener('scroll', () => {
+    if (frame !== null || !page || page.rows.length <= VIRTUALIZE_AFTER) return;
+    frame = requestAnimationFrame(() => {
+      frame = null;
+      renderBody();
+    });
+  });
+
+  // Re-run the query and refresh headers, rows and pager (controls stay in place)
+  const stop = watch(store, [
+    state => state.data.holders,
+    state => loaded(state).walletStats,
+    state => state.filters.leaderboard
+  ], state => {
+    const walletStats = loaded(state).walletStats;
+    const holders = state.data.holders ?? NO_HOLDERS;
+    if (rowsFrom?.walletStats !== walletStats || rowsFrom.holders !== holders) {
+      rows = buildLeaderboardRows(walletStats, holders);
+      rowsFrom = { walletStats, holders };
+      notice.innerHTML = holderNotice(holders);
+    }
+
+    const current = state.filters.leaderboard;
+    page = queryLeaderboard(rows, current);
+    const { offset, total, pageCount } = page;
+
+    head.innerHTML = `
+      <th>#</th>
+      <th>Wallet</th>
+      ${LEADERBOARD_COLUMNS.map(column => `
+        <th class="sortable ${column.key === current.sort ? 'sorted' : ''}" data-sort="${column.key}" ${column.title ? `title="${column.title}"` : ''}>
+          ${column.label}${column.key === current.sort ? (current.direction === 'asc' ? ' ▲' : ' ▼') : ''}
+        </th>
+      `).join('')}
+    `;
+
+    pager.innerHTML = `
+      <span class="pager-summary">${total === 0 ? 'No wallets' : `${formatNumber(offset + 1)}–${formatNumber(offset + page.rows.length)} of ${formatNumber(total)}`}</span>
+      <button class="btn-secondary btn-small" data-page="${page.page - 1}" ${page.page === 0 ? 'disabled' : ''}>‹ Prev</button>
+      <span class="pager-summary">Page ${page.page + 1} / ${pageCount}</span>
+      <button class="btn-secondary btn-small" data-page="${page.page + 1}" ${page.page >= pageCount - 1 ? 'disabled' : ''}>Next ›</button>
+    `;
+
+    renderBody();
+  });
+
+  return () => {
+    stop();
+    if (frame !== null) cancelAnimationFrame(frame);
+  };
+}
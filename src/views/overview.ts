@@ -0,0 +1,753 @@
+import { calculateStats } from '../api';
+import type { StakingStats } from '../api';
+import { explorerUrl, allBakers, isBakerAddress } from '../config';
+import { createStakingChart, updateStakingChart, createRateChart, processRateChartData, updateRateChart, createReconciliationChart, updateReconciliationChart, createHealthChart, updateHealthChart, createConcentrationChart } from '../chart';
+import { windowStart } from '../chartData';
+import type { ChartData, ChartWindow, Granularity } from '../chartData';
+import { summarizeYield } from '../rates';
+import { checkStXTZBacking } from '../reconciliation';
+import { currentHealth, COLLATERAL_THRESHOLD } from '../health';
+import { concentrationMetrics, holdersAtLevel, levelAtDate } from '../concentration';
+import { dexPremium } from '../dex';
+import { formatTez, formatSignedTez, formatStxtz, mulRate, ratio, sumMutez } from '../amounts';
+import { computeChartData, notificationsEnabled, notificationsSupported, setCompareBakers, toggleNotifications } from '../app';
+import { isAbortError } from '../http';
+import { setFilters, watch } from '../state';
+import type { AppState, RangePreset, Store } from '../state';
+import { bakerName, formatDate, formatNumber, formatPercent, formatSignedPercent, shortenAddress } from './format';
+import { LEADERBOARD_SOURCES, mountLeaderboard } from './leaderboard';
+import { EXPORT_SOURCES, mountExportPanel } from './exportPanel';
+import { mountSection } from './section';
+import type { SectionData, SectionSources } from './section';
+import type { Chart } from 'chart.js';
+
+// Overview page: one section per concern, each mounted on its own element once the sources
+// it needs have loaded, and re-rendered when the state it shows changes. Sections that own
+// a chart create it on mount, update it in place and destroy it when the page is left.
+
+type Unmount = () => void;
+
+const STATS_SOURCES = { needs: ['bakeryOps', 'stxtzOps'], uses: ['transfers'] } satisfies SectionSources;
+
+// Bakery and stXTZ totals
+function mountStats(container: HTMLElement, store: Store<AppState>, loaded: SectionData<typeof STATS_SOURCES>): Unmount {
+  return watch(store, [
+    state => loaded(state).bakeryOps,
+    state => loaded(state).stxtzOps,
+    state => state.data.walletStats
+  ], state => {
+    const data = loaded(state);
+    const bakeryStats = calculateStats(data.bakeryOps);
+    const stxtzStats = calculateStats(data.stxtzOps);
+    // Unknown until the wallet stats are computed
+    const uniqueWallets = state.data.walletStats?.length;
+
+    container.innerHTML = `
+      <div class="stats-grid">
+        <div class="stat-section">
+          <h3>Bakery Staking (Raw Protocol)</h3>
+          <div class="stat-cards">
+            <div class="stat-card stake">
+              <span class="stat-label">Total Staked</span>
+              <span class="stat-value">${formatTez(bakeryStats.totalStaked)}</span>
+              <span class="stat-count">${formatNumber(bakeryStats.stakeCount)} operations</span>
+            </div>
+            <div class="stat-card unstake">
+              <span class="stat-label">Total Unstaked</span>
+              <span class="stat-value">${formatTez(bakeryStats.totalUnstaked)}</span>
+              <span class="stat-count">${formatNumber(bakeryStats.unstakeCount)} operations</span>
+            </div>
+            <div class="stat-card finalize">
+              <span class="stat-label">Total Finalized</span>
+              <span class="stat-value">${formatTez(bakeryStats.totalFinalized)}</span>
+              <span class="stat-count">${formatNumber(bakeryStats.finalizeCount)} finalizations</span>
+            </div>
+          </div>
+        </div>
+
+        <div class="stat-section">
+          <h3>stXTZ Operations (Stacy.fi)</h3>
+          <div class="stat-cards">
+            <div class="stat-card stake">
+              <span class="stat-label">Total Deposited</span>
+              <span class="stat-value">${formatTez(stxtzStats.totalStaked)}</span>
+              <span class="stat-count">${formatNumber(stxtzStats.stakeCount)} deposits</span>
+            </div>
+            <div class="stat-card unstake">
+              <span class="stat-label">Withdrawals</span>
+              <span class="stat-value">${formatTez(stxtzStats.totalUnstaked)}</span>
+              <span class="stat-count">${formatNumber(stxtzStats.unstakeCount)} requests${stxtzStats.estimatedCount > 0 ? ` (${formatNumber(stxtzStats.estimatedCount)} estimated)` : ''}</span>
+            </div>
+            <div class="stat-card finalize">
+              <span class="stat-label">Total Finalized</span>
+              <span class="stat-value">${formatTez(stxtzStats.totalFinalized)}</span>
+              <span class="stat-count">${formatNumber(stxtzStats.finalizeCount)} finalizations</span>
+            </div>
+            <div class="stat-card wallets">
+              <span class="stat-label">Unique Wallets</span>
+              <span class="stat-value">${uniqueWallets === undefined ? '—' : formatNumber(uniqueWallets)}</span>
+              <span class="stat-count">stXTZ users</span>
+            </div>
+          </div>
+        </div>
+      </div>
+    `;
+  });
+}
+
+const ALERT_PREVIEW_SIZE = 10;
+
+// Alert feed, newest first, with the browser notification switch
+function mountAlertFeed(container: HTMLElement, store: Store<AppState>): Unmount {
+  const { config } = store.get();
+  let showAll = false;
+
+  const render = (state: AppState) => {
+    const alerts = Array.from(state.alerts.values()).sort((a, b) => b.level - a.level);
+    const shown = showAll ? alerts : alerts.slice(0, ALERT_PREVIEW_SIZE);
+
+    const items = shown.map(alert => `
+      <li class="alert-item ${alert.severity}">
+        <span class="alert-time">${formatDate(alert.timestamp)}</span>
+        <span class="alert-message">${alert.message}</span>
+        ${alert.address ? `<a href="#/wallet/${alert.address}">${shortenAddress(alert.address)}</a>` : ''}
+        ${alert.hash ? `<a href="${explorerUrl(config, alert.hash)}" target="_blank" class="external-link" title="Open in explorer">↗</a>` : ''}
+      </li>
+    `).join('');
+
+    container.innerHTML = `
+      <h3>
+        Alerts
+        ${notificationsSupported() ? `<button data-toggle="notifications" class="btn-secondary btn-small">${notificationsEnabled() ? 'Notifications on' : 'Enable notifications'}</button>` : ''}
+      </h3>
+      <ul class="alert-list">
+        ${items || '<li class="alert-item empty">No alerts</li>'}
+      </ul>
+      ${alerts.length > ALERT_PREVIEW_SIZE ? `
+        <div class="leaderboard-controls">
+          <button data-toggle="alerts" class="btn-secondary">
+            ${showAll ? 'Show Less' : `Show All (${alerts.length})`}
+          </button>
+        </div>
+      ` : ''}
+    `;
+  };
+
+  container.addEventListener('click', async (event) => {
+    const toggle = (event.target as HTMLElement).closest<HTMLElement>('[data-toggle]')?.dataset.toggle;
+    if (toggle === 'alerts') {
+      showAll = !showAll;
+    } else if (toggle === 'notifications') {
+      await toggleNotifications();
+    } else {
+      return;
+    }
+    render(store.get());
+  });
+
+  return watch(store, [state => state.alerts], render);
+}
+
+const RANGE_PRESETS: { preset: RangePreset; label: string; days: number | null }[] = [
+  { preset: '7d', label: '7D', days: 7 },
+  { preset: '30d', label: '30D', days: 30 },
+  { preset: '90d', label: '90D', days: 90 },
+  { preset: 'all', label: 'All', days: null },
+  { preset: 'custom', label: 'Custom', days: null }
+];
+
+const GRANULARITY_LABELS: Record<Granularity, string> = {
+  hour: 'Hourly',
+  day: 'Daily',
+  week: 'Weekly',
+  month: 'Monthly',
+  cycle: 'Per cycle'
+};
+
+const STAKING_CHART_SOURCES = {
+  needs: ['bakeryOps', 'stxtzOps'],
+  uses: ['comparisonOps', 'cycles', 'aliases']
+} satisfies SectionSources;
+
+// Staking chart with its range picker and granularity switch
+function mountStakingChart(container: HTMLElement, store: Store<AppState>, loaded: SectionData<typeof STAKING_CHART_SOURCES>): Unmount {
+  const { config } = store.get();
+  let chart: Chart | null = null;
+  let chartJob: AbortController | null = null;
+
+  container.innerHTML = `
+    <div id="chart-controls" class="chart-controls"></div>
+    <div class="chart-container">
+      <canvas id="stakingChart"></canvas>
+    </div>
+  `;
+  const controls = container.querySelector<HTMLElement>('#chart-controls')!;
+
+  const apply = (rangePreset: RangePreset, changes: Partial<ChartWindow>) => {
+    setFilters(store, { rangePreset, chartWindow: { ...store.get().filters.chartWindow, ...changes } });
+  };
+
+  const renderControls = (state: AppState) => {
+    const { rangePreset, chartWindow } = state.filters;
+    controls.innerHTML = `
+      <div class="range-presets">
+        ${RANGE_PRESETS.map(({ preset, label }) => `
+          <button class="btn-secondary btn-small ${preset === rangePreset ? 'active' : ''}" data-range="${preset}">${label}</button>
+        `).join('')}
+      </div>
+      <div class="custom-range" ${rangePreset === 'custom' ? '' : 'hidden'}>
+        <input id="range-from" type="date" class="text-input" value="${chartWindow.from ?? ''}" />
+        <span>–</span>
+        <input id="range-to" type="date" class="text-input" value="${chartWindow.to ?? ''}" />
+      </div>
+      <select id="chart-granularity" class="text-input">
+        ${(Object.keys(GRANULARITY_LABELS) as Granularity[]).map(granularity => `
+          <option value="${granularity}" ${granularity === chartWindow.granularity ? 'selected' : ''}>${GRANULARITY_LABELS[granularity]}</option>
+        `).join('')}
+      </select>
+    `;
+
+    controls.querySelectorAll<HTMLButtonElement>('[data-range]').forEach(button => {
+      button.addEventListener('click', () => {
+        const { preset, days } = RANGE_PRESETS.find(option => option.preset === button.dataset.range)!;
+        // Custom keeps the current window as a starting point for the date inputs
+        if (preset === 'custom') apply(preset, {});
+        else apply(preset, { from: days === null ? null : windowStart(days), to: null });
+      });
+    });
+
+    const fromInput = controls.querySelector<HTMLInputElement>('#range-from')!;
+    const toInput = controls.querySelector<HTMLInputElement>('#range-to')!;
+    const applyCustom = () => apply('custom', { from: fromInput.value || null, to: toInput.value || null });
+    fromInput.addEventListener('change', applyCustom);
+    toInput.addEventListener('change', applyCustom);
+
+    controls.querySelector('#chart-granularity')!.addEventListener('change', (event) => {
+      apply(rangePreset, { granularity: (event.target as HTMLSelectElement).value as Granularity });
+    });
+  };
+
+  // Aggregate the current window in the worker, then create the chart or update it in place.
+  // A newer render (e.g. another range picked mid-way) cancels the aggregation it overtakes.
+  const renderChart = async (state: AppState) => {
+    chartJob?.abort();
+    const job = new AbortController();
+    chartJob = job;
+
+    const data = loaded(state);
+    let chartData: ChartData;
+    try {
+      chartData = await computeChartData({
+        bakeryOps: data.bakeryOps,
+        stxtzOps: data.stxtzOps,
+        comparisonOps: state.data.comparisonOps ?? new Map(),
+        chartWindow: state.filters.chartWindow,
+        cycles: state.data.cycles ?? []
+      }, job.signal);
+    } catch (error) {
+      if (!isAbortError(error)) console.warn('Failed to aggregate chart data:', error);
+      return;
+    }
+
+    const bakerNames = Object.fromEntries(config.compareBakers.map(baker => [baker, bakerName(baker, state.data.aliases ?? {})]));
+    if (chart) {
+      updateStakingChart(chart, chartData, bakerNames);
+    } else {
+      chart = createStakingChart('stakingChart', chartData, bakerNames);
+    }
+  };
+
+  const stops = [
+    watch(store, [state => state.filters.rangePreset, state => state.filters.chartWindow], renderControls),
+    watch(store, [
+      state => loaded(state).bakeryOps,
+      state => loaded(state).stxtzOps,
+      state => state.data.comparisonOps,
+      state => state.data.cycles,
+      state => state.data.aliases,
+      state => state.filters.chartWindow
+    ], renderChart)
+  ];
+
+  return () => {
+    stops.forEach(stop => stop());
+    chartJob?.abort();
+    chart?.destroy();
+  };
+}
+
+const RATES_SOURCES = { needs: ['stxtzOps'], uses: ['transfers'] } satisfies SectionSources;
+
+// Exchange rate and yield cards above the rate chart
+function mountRates(container: HTMLElement, store: Store<AppState>, loaded: SectionData<typeof RATES_SOURCES>): Unmount {
+  let chart: Chart | null = null;
+
+  container.innerHTML = `
+    <h3>Exchange Rate &amp; Yield</h3>
+    <div id="yield-stats" class="stat-cards"></div>
+    <div class="chart-container">
+      <canvas id="rateChart"></canvas>
+    </div>
+  `;
+  const cards = container.querySelector<HTMLElement>('#yield-stats')!;
+
+  // DEX prices come with the transfers and are left out until those load
+  const stop = watch(store, [state => loaded(state).rates, state => state.data.dexPrices], state => {
+    const { rates } = loaded(state);
+    const dexPrices = state.data.dexPrices ?? [];
+    const summary = summarizeYield(rates);
+    const lastSwap = dexPrices.length > 0 ? dexPrices[dexPrices.length - 1] : null;
+
+    cards.innerHTML = `
+      <div class="stat-card">
+        <span class="stat-label">stXTZ → XTZ</span>
+        <span class="stat-value">${summary.currentRate === null ? '—' : summary.currentRate.toFixed(6)}</span>
+        <span class="stat-count">current rate</span>
+      </div>
+      <div class="stat-card">
+        <span class="stat-label">7-day APY</span>
+        <span class="stat-value">${formatPercent(summary.apy7d)}</span>
+        <span class="stat-count">annualized</span>
+      </div>
+      <div class="stat-card">
+        <span class="stat-label">30-day APY</span>
+        <span class="stat-value">${formatPercent(summary.apy30d)}</span>
+        <span class="stat-count">annualized</span>
+      </div>
+      <div class="stat-card">
+        <span class="stat-label">All-time APY</span>
+        <span class="stat-value">${formatPercent(summary.apyAllTime)}</span>
+        <span class="stat-count">since first rate</span>
+      </div>
+      <div class="stat-card">
+        <span class="stat-label">DEX Price</span>
+        <span class="stat-value">${lastSwap ? lastSwap.price.toFixed(6) : '—'}</span>
+        <span class="stat-count">${lastSwap ? `${formatSignedPercent(dexPremium(lastSwap, rates))} vs redemption, ${formatDate(lastSwap.timestamp)}` : 'no swaps in configured pools'}</span>
+      </div>
+    `;
+
+    const rateData = processRateChartData(rates, dexPrices);
+    if (chart) {
+      updateRateChart(chart, rateData);
+    } else {
+      chart = createRateChart('rateChart', rateData);
+    }
+  });
+
+  return () => {
+    stop();
+    chart?.destroy();
+  };
+}
+
+const HEALTH_SOURCES = {
+  needs: ['tokenSupply', 'contractBalance', 'contractHistory', 'transfers', 'stxtzOps', 'bakeryOps', 'cycles', 'timing'],
+  derived: ['withdrawalQueue', 'healthHistory']
+} satisfies SectionSources;
+
+// Protocol health: stXTZ obligations vs backing XTZ, and the ratio over time
+function mountHealth(container: HTMLElement, store: Store<AppState>, loaded: SectionData<typeof HEALTH_SOURCES>): Unmount {
+  let chart: Chart | null = null;
+
+  container.innerHTML = `
+    <h3>Protocol Health</h3>
+    <div id="health-stats" class="stat-cards"></div>
+    <div class="chart-container">
+      <canvas id="healthChart"></canvas>
+    </div>
+  `;
+  const cards = container.querySelector<HTMLElement>('#health-stats')!;
+
+  const stop = watch(store, [
+    state => loaded(state).tokenSupply,
+    state => loaded(state).contractBalance,
+    state => loaded(state).rates,
+    state => loaded(state).withdrawalQueue,
+    state => loaded(state).healthHistory
+  ], state => {
+    const data = loaded(state);
+    const queue = data.withdrawalQueue;
+    const now = currentHealth(data.tokenSupply, data.contractBalance, data.rates, queue, data.timing.currentLevel, new Date().toISOString());
+    const today = now.timestamp.split('T')[0];
+    const history = [...data.healthHistory.filter(snapshot => snapshot.timestamp.split('T')[0] !== today), now];
+
+    const belowThreshold = now.ratio !== null && now.ratio < COLLATERAL_THRESHOLD;
+    const breachDays = history.filter(snapshot => snapshot.ratio !== null && snapshot.ratio < COLLATERAL_THRESHOLD).length;
+
+    cards.innerHTML = `
+      <div class="stat-card ${belowThreshold ? 'flagged' : 'stake'}">
+        <span class="stat-label">Collateralization</span>
+        <span class="stat-value">${formatPercent(now.ratio)}</span>
+        <span class="stat-count">
+          threshold ${formatPercent(COLLATERAL_THRESHOLD)}, ${formatNumber(breachDays)} days below
+          ${belowThreshold ? '<br><strong>⚠ Backing below threshold</strong>' : ''}
+        </span>
+      </div>
+      <div class="stat-card">
+        <span class="stat-label">stXTZ Supply × Rate</span>
+        <span class="stat-value">${formatTez(mulRate(now.supply, now.rate))}</span>
+        <span class="stat-count">${formatStxtz(now.supply, 0)} at ${now.rate.toFixed(6)}</span>
+      </div>
+      <div class="stat-card">
+        <span class="stat-label">Withdrawal Queue Owed</span>
+        <span class="stat-value">${formatTez(now.queueOwed)}</span>
+        <span class="stat-count">${formatNumber(queue.open.length)} open requests</span>
+      </div>
+      <div class="stat-card">
+        <span class="stat-label">Backing XTZ</span>
+        <span class="stat-value">${formatTez(now.backing)}</span>
+        <span class="stat-count">liquid ${formatTez(now.liquid)}, staked ${formatTez(now.staked)}, unstaked ${formatTez(now.unstaked)}</span>
+      </div>
+    `;
+
+    if (chart) {
+      updateHealthChart(chart, history, COLLATERAL_THRESHOLD);
+    } else {
+      chart = createHealthChart('healthChart', history, COLLATERAL_THRESHOLD);
+    }
+  });
+
+  return () => {
+    stop();
+    chart?.destroy();
+  };
+}
+
+const RECONCILIATION_SOURCES = {
+  needs: ['bakeryOps', 'stxtzOps', 'bakerRewards', 'bakerBalance', 'contractBalance', 'timing'],
+  derived: ['reconciliation']
+} satisfies SectionSources;
+
+// Baker balance reconciliation: actual vs derived stake and stXTZ backing
+function mountReconciliation(container: HTMLElement, store: Store<AppState>, loaded: SectionData<typeof RECONCILIATION_SOURCES>): Unmount {
+  let chart: Chart | null = null;
+
+  container.innerHTML = `
+    <h3>Baker Balance Reconciliation</h3>
+    <div id="reconciliation-stats" class="stat-cards"></div>
+    <div class="chart-container">
+      <canvas id="reconciliationChart"></canvas>
+    </div>
+  `;
+  const cards = container.querySelector<HTMLElement>('#reconciliation-stats')!;
+
+  const stop = watch(store, [
+    state => loaded(state).reconciliation,
+    state => loaded(state).stxtzOps,
+    state => loaded(state).bakerRewards,
+    state => loaded(state).bakerBalance,
+    state => loaded(state).contractBalance
+  ], state => {
+    const data = loaded(state);
+    const points = data.reconciliation;
+    const backing = checkStXTZBacking(data.stxtzOps, data.contractBalance);
+
+    const actual = data.bakerBalance.stakedBalance + data.bakerBalance.externalStakedBalance;
+    const derived = points.length > 0 ? points[points.length - 1].derived : 0n;
+    const totalRewards = sumMutez(data.bakerRewards.map(entry => entry.rewards));
+
+    cards.innerHTML = `
+      <div class="stat-card">
+        <span class="stat-label">Baker Staked (actual)</span>
+        <span class="stat-value">${formatTez(actual)}</span>
+        <span class="stat-count">own ${formatTez(data.bakerBalance.stakedBalance)}, external ${formatTez(data.bakerBalance.externalStakedBalance)}</span>
+      </div>
+      <div class="stat-card">
+        <span class="stat-label">Derived from Operations</span>
+        <span class="stat-value">${formatTez(derived)}</span>
+        <span class="stat-count">difference ${formatSignedTez(actual - derived)}, rewards ${formatTez(totalRewards)}</span>
+      </div>
+      <div class="stat-card ${backing.flagged ? 'flagged' : ''}">
+        <span class="stat-label">stXTZ Backing at Baker</span>
+        <span class="stat-value">${formatTez(backing.actual)}</span>
+        <span class="stat-count">
+          deposits imply ${formatTez(backing.implied)} (${formatSignedTez(backing.difference)})
+          ${backing.flagged ? '<br><strong>⚠ Baker holds less than stXTZ deposits imply</strong>' : ''}
+        </span>
+      </div>
+    `;
+
+    if (chart) {
+      updateReconciliationChart(chart, points);
+    } else {
+      chart = createReconciliationChart('reconciliationChart', points);
+    }
+  });
+
+  return () => {
+    stop();
+    chart?.destroy();
+  };
+}
+
+const BAKER_COMPARISON_SOURCES = { needs: ['bakeryOps', 'comparisonOps'], uses: ['aliases'] } satisfies SectionSources;
+
+// Per-baker stats cards and the side-by-side comparison table
+function mountBakerComparison(container: HTMLElement, store: Store<AppState>, loaded: SectionData<typeof BAKER_COMPARISON_SOURCES>): Unmount {
+  const { config } = store.get();
+  const bakers = allBakers(config);
+
+  // The add form is rendered once so typing survives live updates
+  container.innerHTML = `
+    <h3>Baker Comparison</h3>
+    <div id="baker-comparison-body"></div>
+    <form id="add-baker-form" class="leaderboard-controls">
+      <input id="add-baker-input" class="text-input" placeholder="Add baker to compare (tz...)" spellcheck="false" />
+      <button type="submit" class="btn-secondary">Compare</button>
+    </form>
+  `;
+  const body = container.querySelector<HTMLElement>('#baker-comparison-body')!;
+
+  container.querySelector('#add-baker-form')!.addEventListener('submit', (event) => {
+    event.preventDefault();
+    const input = container.querySelector<HTMLInputElement>('#add-baker-input')!;
+    const address = input.value.trim();
+    if (!isBakerAddress(address)) {
+      input.setCustomValidity('Not a valid baker address');
+      input.reportValidity();
+      return;
+    }
+    setCompareBakers([...config.compareBakers, address]);
+  });
+
+  body.addEventListener('click', (event) => {
+    const button = (event.target as HTMLElement).closest<HTMLButtonElement>('[data-remove-baker]');
+    if (button) setCompareBakers(config.compareBakers.filter(baker => baker !== button.dataset.removeBaker));
+  });
+
+  return watch(store, [
+    state => loaded(state).bakeryOps,
+    state => loaded(state).comparisonOps,
+    state => state.data.aliases
+  ], state => {
+    const { bakeryOps, comparisonOps } = loaded(state);
+    const aliases = state.data.aliases ?? {};
+    const bakerStats = new Map<string, StakingStats>([
+      [config.baker, calculateStats(bakeryOps)],
+      ...Array.from(comparisonOps, ([baker, ops]) => [baker, calculateStats(ops)] as [string, StakingStats])
+    ]);
+
+    const cards = bakers.map(baker => {
+      const stats = bakerStats.get(baker)!;
+      return `
+        <div class="stat-section">
+          <h3>
+            <a href="${explorerUrl(config, baker)}" target="_blank">${bakerName(baker, aliases)}</a>
+            ${baker === config.baker ? '<span class="baker-tag">primary</span>' : ''}
+          </h3>
+          <div class="stat-cards">
+            <div class="stat-card stake">
+              <span class="stat-label">Staked</span>
+              <span class="stat-value">${formatTez(stats.totalStaked)}</span>
+              <span class="stat-count">${formatNumber(stats.stakeCount)} operations</span>
+            </div>
+            <div class="stat-card unstake">
+              <span class="stat-label">Unstaked</span>
+              <span class="stat-value">${formatTez(stats.totalUnstaked)}</span>
+              <span class="stat-count">${formatNumber(stats.unstakeCount)} operations</span>
+            </div>
+            <div class="stat-card finalize">
+              <span class="stat-label">Finalized</span>
+              <span class="stat-value">${formatTez(stats.totalFinalized)}</span>
+              <span class="stat-count">${formatNumber(stats.finalizeCount)} finalizations</span>
+            </div>
+          </div>
+        </div>
+      `;
+    }).join('');
+
+    const rows = bakers.map(baker => {
+      const stats = bakerStats.get(baker)!;
+      return `
+        <tr>
+          <td class="address">
+            <a href="${explorerUrl(config, baker)}" target="_blank">${bakerName(baker, aliases)}</a>
+          </td>
+          <td class="deposited">${formatTez(stats.totalStaked)}</td>
+          <td class="withdrawn">${formatTez(stats.totalUnstaked)}</td>
+          <td class="withdrawn">${formatTez(stats.totalFinalized)}</td>
+          <td class="net-position ${stats.netStaked >= 0n ? 'positive' : 'negative'}">
+            ${stats.netStaked >= 0n ? '+' : ''}${formatTez(stats.netStaked)}
+          </td>
+          <td class="remove">
+            ${baker === config.baker ? '' : `<button class="btn-secondary btn-small" data-remove-baker="${baker}">Remove</button>`}
+          </td>
+        </tr>
+      `;
+    }).join('');
+
+    body.innerHTML = `
+      <div class="stats-grid">${cards}</div>
+      <div class="table-container">
+        <table class="leaderboard-table comparison-table">
+          <thead>
+            <tr>
+              <th>Baker</th>
+              <th>Staked</th>
+              <th>Unstaked</th>
+              <th>Finalized</th>
+              <th>Net Staked</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            ${rows}
+          </tbody>
+        </table>
+      </div>
+    `;
+  });
+}
+
+const CONCENTRATION_SOURCES = { needs: ['transfers'], derived: ['concentration'] } satisfies SectionSources;
+
+// Holder concentration: metrics and top holders at a snapshot, and metrics over time
+function mountConcentration(container: HTMLElement, store: Store<AppState>, loaded: SectionData<typeof CONCENTRATION_SOURCES>): Unmount {
+  let chart: Chart | null = null;
+
+  container.innerHTML = `
+    <h3>Holder Concentration</h3>
+    <form id="concentration-form" class="leaderboard-controls export-controls">
+      <input id="concentration-at" class="text-input" placeholder="YYYY-MM-DD or level" spellcheck="false" />
+      <button type="submit" class="btn-secondary">Show snapshot</button>
+      <span id="concentration-level" class="section-hint"></span>
+    </form>
+    <div id="concentration-snapshot"></div>
+    <div class="chart-container">
+      <canvas id="concentrationChart"></canvas>
+    </div>
+    <div class="table-container">
+      <table class="leaderboard-table">
+        <thead>
+          <tr>
+            <th>#</th>
+            <th>Wallet</th>
+            <th>Balance</th>
+            <th>Share</th>
+          </tr>
+        </thead>
+        <tbody id="concentration-top"></tbody>
+      </table>
+    </div>
+  `;
+  const input = container.querySelector<HTMLInputElement>('#concentration-at')!;
+  const levelHint = container.querySelector<HTMLElement>('#concentration-level')!;
+  const snapshot = container.querySelector<HTMLElement>('#concentration-snapshot')!;
+  const top = container.querySelector<HTMLElement>('#concentration-top')!;
+  input.value = store.get().filters.concentrationAt;
+
+  container.querySelector('#concentration-form')!.addEventListener('submit', (event) => {
+    event.preventDefault();
+    const value = input.value.trim();
+    if (value && !/^\d+$/.test(value) && !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      input.setCustomValidity('Enter a date (YYYY-MM-DD) or a level');
+      input.reportValidity();
+      return;
+    }
+    setFilters(store, { concentrationAt: value });
+  });
+  input.addEventListener('input', () => input.setCustomValidity(''));
+
+  const renderSnapshot = (state: AppState) => {
+    const { transfers } = loaded(state);
+    const { concentrationAt } = state.filters;
+    const latestLevel = transfers.length > 0 ? transfers[transfers.length - 1].level : 0;
+    const level = /^\d+$/.test(concentrationAt)
+      ? Number(concentrationAt)
+      : concentrationAt ? levelAtDate(transfers, concentrationAt) ?? 0 : latestLevel;
+    const holders = holdersAtLevel(transfers, level);
+    const metrics = concentrationMetrics(holders);
+
+    levelHint.textContent = `level ${formatNumber(level)}`;
+    snapshot.innerHTML = `
+      <div class="stat-cards">
+        <div class="stat-card">
+          <span class="stat-label">Holders</span>
+          <span class="stat-value">${formatNumber(metrics.holders)}</span>
+          <span class="stat-count">${formatStxtz(metrics.supply, 0)}</span>
+        </div>
+        <div class="stat-card">
+          <span class="stat-label">Gini</span>
+          <span class="stat-value">${metrics.gini.toFixed(3)}</span>
+          <span class="stat-count">0 equal, 1 one holder</span>
+        </div>
+        <div class="stat-card">
+          <span class="stat-label">Nakamoto</span>
+          <span class="stat-value">${formatNumber(metrics.nakamoto)}</span>
+          <span class="stat-count">holders owning &gt;50%</span>
+        </div>
+        <div class="stat-card unstake">
+          <span class="stat-label">Top 10 / Top 100</span>
+          <span class="stat-value">${formatPercent(metrics.top10Share)}</span>
+          <span class="stat-count">top 100 hold ${formatPercent(metrics.top100Share)}</span>
+        </div>
+      </div>
+    `;
+
+    const rows = holders.slice(0, 10).map((holder, index) => `
+      <tr>
+        <td class="rank">${index + 1}</td>
+        <td class="address"><a href="#/wallet/${holder.address}">${shortenAddress(holder.address)}</a></td>
+        <td class="balance">${formatStxtz(holder.balance)}</td>
+        <td>${formatPercent(ratio(holder.balance, metrics.supply))}</td>
+      </tr>
+    `).join('');
+    top.innerHTML = rows || '<tr><td colspan="4" class="empty">No holders at this point</td></tr>';
+  };
+
+  // The history is derived in the worker and does not depend on the snapshot picked
+  const renderChart = (state: AppState) => {
+    chart?.destroy();
+    chart = createConcentrationChart('concentrationChart', loaded(state).concentration);
+  };
+
+  const stops = [
+    watch(store, [state => loaded(state).transfers, state => state.filters.concentrationAt], renderSnapshot),
+    watch(store, [state => loaded(state).concentration], renderChart)
+  ];
+
+  return () => {
+    stops.forEach(stop => stop());
+    chart?.destroy();
+  };
+}
+
+export function mountOverview(container: HTMLElement, store: Store<AppState>): () => void {
+  container.innerHTML = `
+    <section id="stats" class="stats-section"></section>
+
+    <section id="alert-feed"></section>
+
+    <section id="staking-chart" class="chart-section"></section>
+
+    <section id="rates" class="chart-section rate-section"></section>
+
+    <section id="health" class="chart-section rate-section"></section>
+
+    <section id="reconciliation" class="chart-section rate-section"></section>
+
+    <section id="baker-comparison"></section>
+
+    <section id="wallet-leaderboard"></section>
+
+    <section id="concentration" class="chart-section rate-section"></section>
+
+    <section id="export-panel" class="export-panel"></section>
+  `;
+
+  const section = (id: string) => container.querySelector<HTMLElement>(`#${id}`)!;
+  const unmounts = [
+    mountSection(section('stats'), store, STATS_SOURCES, mountStats),
+    mountAlertFeed(section('alert-feed'), store),
+    mountSection(section('staking-chart'), store, STAKING_CHART_SOURCES, mountStakingChart),
+    mountSection(section('rates'), store, RATES_SOURCES, mountRates),
+    mountSection(section('health'), store, HEALTH_SOURCES, mountHealth),
+    mountSection(section('reconciliation'), store, RECONCILIATION_SOURCES, mountReconciliation),
+    mountSection(section('baker-comparison'), store, BAKER_COMPARISON_SOURCES, mountBakerComparison),
+    mountSection(section('wallet-leaderboard'), store, LEADERBOARD_SOURCES, mountLeaderboard),
+    mountSection(section('concentration'), store, CONCENTRATION_SOURCES, mountConcentration),
+    mountSection(section('export-panel'), store, EXPORT_SOURCES, mountExportPanel)
+  ];
+
+  return () => unmounts.forEach(unmount => unmount());
+}
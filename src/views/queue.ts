@@ -0,0 +1,235 @@
+import { calculateCycleStats } from '../api';
+import type { StakingOperation } from '../api';
+import { formatTez } from '../amounts';
+import type { ProtocolTiming } from '../cycles';
+import { bakeryFinalizationGaps } from '../withdrawals';
+import type { WithdrawalQueue } from '../withdrawals';
+import { watch } from '../state';
+import type { AppState, Store } from '../state';
+import { ESTIMATE_MARK, WITHDRAWAL_STATE_LABELS, formatDate, formatNumber, shortenAddress } from './format';
+import { mountSection } from './section';
+import type { SectionData, SectionSources } from './section';
+
+// Withdrawal queue page: what the protocol owes, when it unlocks, and per-cycle activity
+
+// Open withdrawal requests shown before "Show All"
+const QUEUE_PREVIEW_SIZE = 20;
+
+// Cycles shown before "Show All"
+const CYCLE_PREVIEW_SIZE = 12;
+
+// Totals, liquidity needed per cycle and open requests
+function withdrawalQueueHtml(queue: WithdrawalQueue, timing: ProtocolTiming, showAll: boolean): string {
+  const finalizableCount = queue.open.filter(request => request.state === 'finalizable').length;
+
+  const liquidityRows = queue.liquidityByCycle.map(need => `
+    <tr>
+      <td>${need.cycle}${need.cycle === timing.currentCycle ? ' <span class="baker-tag">now</span>' : ''}</td>
+      <td>${formatDate(need.startTime)}</td>
+      <td class="deposited">${formatNumber(need.requests)}</td>
+      <td class="withdrawn">${formatTez(need.amount)}</td>
+    </tr>
+  `).join('');
+
+  const shown = showAll ? queue.open : queue.open.slice(0, QUEUE_PREVIEW_SIZE);
+  const requestRows = shown.map(request => `
+    <tr>
+      <td class="address">
+        <a href="#/wallet/${request.sender}">${shortenAddress(request.sender)}</a>
+      </td>
+      <td>${formatDate(request.request.timestamp)}</td>
+      <td class="withdrawn">${formatTez(request.amount)}${request.request.exact ? '' : ESTIMATE_MARK}</td>
+      <td>${request.unlockCycle ?? '—'}</td>
+      <td><span class="queue-state ${request.state}">${WITHDRAWAL_STATE_LABELS[request.state]}</span></td>
+    </tr>
+  `).join('');
+
+  return `
+    <h3>Withdrawal Queue</h3>
+    <div class="stat-cards">
+      <div class="stat-card unstake">
+        <span class="stat-label">Pending</span>
+        <span class="stat-value">${formatTez(queue.totalPending)}</span>
+        <span class="stat-count">${formatNumber(queue.open.length)} open requests</span>
+      </div>
+      <div class="stat-card finalize">
+        <span class="stat-label">Finalizable Now</span>
+        <span class="stat-value">${formatTez(queue.totalFinalizable)}</span>
+        <span class="stat-count">${formatNumber(finalizableCount)} requests</span>
+      </div>
+      <div class="stat-card">
+        <span class="stat-label">Unstake Delay</span>
+        <span class="stat-value">${timing.unstakeDelayCycles} cycles</span>
+        <span class="stat-count">current cycle ${timing.currentCycle}</span>
+      </div>
+    </div>
+
+    <h4>Liquidity Needed per Cycle</h4>
+    <div class="table-container">
+      <table class="leaderboard-table queue-table">
+        <thead>
+          <tr>
+            <th>Cycle</th>
+            <th>Starts</th>
+            <th>Requests</th>
+            <th>XTZ</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${liquidityRows || '<tr><td colspan="4" class="empty">No open withdrawal requests</td></tr>'}
+        </tbody>
+      </table>
+    </div>
+
+    <h4>Open Requests</h4>
+    <div class="table-container">
+      <table class="leaderboard-table queue-table">
+        <thead>
+          <tr>
+            <th>Wallet</th>
+            <th>Requested</th>
+            <th>Amount</th>
+            <th>Unlock Cycle</th>
+            <th>State</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${requestRows || '<tr><td colspan="5" class="empty">No open withdrawal requests</td></tr>'}
+        </tbody>
+      </table>
+    </div>
+    ${queue.open.length > QUEUE_PREVIEW_SIZE ? `
+      <div class="leaderboard-controls">
+        <button data-toggle="queue" class="btn-secondary">
+          ${showAll ? 'Show Less' : `Show All (${queue.open.length})`}
+        </button>
+      </div>
+    ` : ''}
+  `;
+}
+
+// Per-cycle activity and how long bakery unstakes actually took to finalize
+function cycleStatsHtml(bakeryOps: StakingOperation[], stxtzOps: StakingOperation[], timing: ProtocolTiming, showAll: boolean): string {
+  const bakeryCycles = new Map(calculateCycleStats(bakeryOps).map(stats => [stats.cycle, stats]));
+  const stxtzCycles = new Map(calculateCycleStats(stxtzOps).map(stats => [stats.cycle, stats]));
+  const cycles = Array.from(new Set([...bakeryCycles.keys(), ...stxtzCycles.keys()])).sort((a, b) => b - a);
+
+  const gaps = bakeryFinalizationGaps(bakeryOps).map(gap => gap.cycles).sort((a, b) => a - b);
+  const medianGap = gaps.length > 0 ? gaps[Math.floor(gaps.length / 2)] : null;
+
+  const shown = showAll ? cycles : cycles.slice(0, CYCLE_PREVIEW_SIZE);
+  const rows = shown.map(cycle => {
+    const bakery = bakeryCycles.get(cycle);
+    const stxtz = stxtzCycles.get(cycle);
+    return `
+      <tr>
+        <td>${cycle}${cycle === timing.currentCycle ? ' <span class="baker-tag">now</span>' : ''}</td>
+        <td class="deposited">${formatTez(bakery?.staked ?? 0n)}</td>
+        <td class="withdrawn">${formatTez(bakery?.unstaked ?? 0n)}</td>
+        <td>${formatTez(bakery?.finalized ?? 0n)}</td>
+        <td class="deposited">${formatTez(stxtz?.staked ?? 0n)}</td>
+        <td class="withdrawn">${formatTez(stxtz?.unstaked ?? 0n)}</td>
+        <td>${formatTez(stxtz?.finalized ?? 0n)}</td>
+      </tr>
+    `;
+  }).join('');
+
+  return `
+    <h3>Activity per Cycle</h3>
+    <div class="stat-cards">
+      <div class="stat-card">
+        <span class="stat-label">Current Cycle</span>
+        <span class="stat-value">${timing.currentCycle}</span>
+        <span class="stat-count">level ${formatNumber(timing.currentLevel)}</span>
+      </div>
+      <div class="stat-card finalize">
+        <span class="stat-label">Unstake → Finalize</span>
+        <span class="stat-value">${medianGap === null ? '—' : `${medianGap} cycles`}</span>
+        <span class="stat-count">median of ${formatNumber(gaps.length)} bakery unstakes, protocol delay ${timing.unstakeDelayCycles}</span>
+      </div>
+    </div>
+    <div class="table-container">
+      <table class="leaderboard-table queue-table cycle-table">
+        <thead>
+          <tr>
+            <th>Cycle</th>
+            <th>Bakery Stakes</th>
+            <th>Bakery Unstakes</th>
+            <th>Bakery Finalized</th>
+            <th>Stacy.fi Deposits</th>
+            <th>Stacy.fi Withdrawals</th>
+            <th>Stacy.fi Finalized</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${rows || '<tr><td colspan="7" class="empty">No operations with a known cycle</td></tr>'}
+        </tbody>
+      </table>
+    </div>
+    ${cycles.length > CYCLE_PREVIEW_SIZE ? `
+      <div class="leaderboard-controls">
+        <button data-toggle="cycles" class="btn-secondary">
+          ${showAll ? 'Show Less' : `Show All (${cycles.length})`}
+        </button>
+      </div>
+    ` : ''}
+  `;
+}
+
+const QUEUE_SOURCES = {
+  needs: ['stxtzOps', 'bakeryOps', 'cycles', 'timing'],
+  derived: ['withdrawalQueue']
+} satisfies SectionSources;
+
+const CYCLE_STATS_SOURCES = { needs: ['stxtzOps', 'bakeryOps', 'cycles', 'timing'] } satisfies SectionSources;
+
+// Queue section; the toggle is re-rendered with it, so listen on the section
+function mountWithdrawalQueue(container: HTMLElement, store: Store<AppState>, loaded: SectionData<typeof QUEUE_SOURCES>): () => void {
+  let showAll = false;
+  const render = (state: AppState) => {
+    container.innerHTML = withdrawalQueueHtml(loaded(state).withdrawalQueue, loaded(state).timing, showAll);
+  };
+
+  container.addEventListener('click', (event) => {
+    if (!(event.target as HTMLElement).closest('[data-toggle="queue"]')) return;
+    showAll = !showAll;
+    render(store.get());
+  });
+
+  return watch(store, [state => loaded(state).withdrawalQueue], render);
+}
+
+function mountCycleStats(container: HTMLElement, store: Store<AppState>, loaded: SectionData<typeof CYCLE_STATS_SOURCES>): () => void {
+  let showAll = false;
+  const render = (state: AppState) => {
+    const { bakeryOps, stxtzOps, timing } = loaded(state);
+    container.innerHTML = cycleStatsHtml(bakeryOps, stxtzOps, timing, showAll);
+  };
+
+  container.addEventListener('click', (event) => {
+    if (!(event.target as HTMLElement).closest('[data-toggle="cycles"]')) return;
+    showAll = !showAll;
+    render(store.get());
+  });
+
+  return watch(store, [
+    state => loaded(state).bakeryOps,
+    state => loaded(state).stxtzOps,
+    state => loaded(state).timing
+  ], render);
+}
+
+export function mountQueue(container: HTMLElement, store: Store<AppState>): () => void {
+  container.innerHTML = `
+    <section id="withdrawal-queue"></section>
+
+    <section id="cycle-stats"></section>
+  `;
+
+  const unmounts = [
+    mountSection(container.querySelector<HTMLElement>('#withdrawal-queue')!, store, QUEUE_SOURCES, mountWithdrawalQueue),
+    mountSection(container.querySelector<HTMLElement>('#cycle-stats')!, store, CYCLE_STATS_SOURCES, mountCycleStats)
+  ];
+
+  return () => unmounts.forEach(unmount => unmount());
+}
@@ -0,0 +1,140 @@
+import { retrySource } from '../app';
+import { SOURCE_LABELS, hasData, loadedData, watch } from '../state';
+import type { AppState, DashboardData, LoadedData, SourceFields, SourceKey, Store } from '../state';
+import { formatDate, formatNumber } from './format';
+
+// Wraps a view component so it only mounts once the sources it needs have loaded and the
+// data derived from them has been computed. Until then the section shows a skeleton, or an error banner with a retry button for
+// the sources that failed. Once mounted it stays up through refreshes: a failed refresh
+// shows a banner above the last good data, and a footer line tells when that was synced.
+
+// Synced data older than this is marked stale
+const STALE_AFTER_MS = 15 * 60 * 1000;
+
+export interface SectionSources {
+  needs: SourceKey[];  // the section cannot render without these
+  uses?: SourceKey[];  // shown without these (e.g. balances unknown), but their failures are reported
+  derived?: (keyof DashboardData)[]; // computed from the sources in the pipeline worker once they load
+}
+
+// Fields a mounted section can rely on: what its needed sources fill and what it derives.
+// Declare the sources with `satisfies SectionSources` so the key lists keep their literal types.
+export type SectionFields<S extends SectionSources> =
+  | SourceFields<S['needs'][number]>
+  | (S extends { derived: (infer D extends keyof DashboardData)[] } ? D : never);
+
+// Reads the data of a mounted section
+export type SectionData<S extends SectionSources> = (state: AppState) => LoadedData<SectionFields<S>>;
+
+// Paging progress of every needed source, so a long first load shows it is moving
+function progressHtml(state: AppState, needs: SourceKey[]): string {
+  return needs.map(key => {
+    const { state: sourceState, progress } = state.sources[key];
+    const detail = progress
+      ? `${formatNumber(progress.records)} records (${formatNumber(progress.pages)} ${progress.pages === 1 ? 'page' : 'pages'})`
+      : sourceState === 'loading' ? 'waiting...' : '';
+    return `<li class="${sourceState === 'ready' ? 'done' : ''}">${SOURCE_LABELS[key]}${detail ? `: ${detail}` : ''}</li>`;
+  }).join('');
+}
+
+function skeletonHtml(state: AppState, needs: SourceKey[]): string {
+  return `
+    <ul class="loading-progress">${progressHtml(state, needs)}</ul>
+    <div class="skeleton">
+      <div class="skeleton-line short"></div>
+      <div class="skeleton-cards">
+        <div class="skeleton-card"></div>
+        <div class="skeleton-card"></div>
+        <div class="skeleton-card"></div>
+      </div>
+      <div class="skeleton-line"></div>
+      <div class="skeleton-line"></div>
+    </div>
+  `;
+}
+
+// One banner per failed source
+function bannersHtml(state: AppState, keys: SourceKey[]): string {
+  return keys
+    .filter(key => state.sources[key].state === 'error')
+    .map(key => {
+      const { error, syncedAt } = state.sources[key];
+      const kept = syncedAt ? ` Showing data from ${formatDate(syncedAt)}.` : '';
+      return `
+        <div class="error-banner">
+          Could not load ${SOURCE_LABELS[key].toLowerCase()}: ${error}.${kept}
+          <button class="btn-secondary btn-small" data-retry="${key}">Retry</button>
+        </div>
+      `;
+    })
+    .join('');
+}
+
+// When the section's data was last synced: the oldest of its sources
+function syncedHtml(state: AppState, keys: SourceKey[]): string {
+  const synced = keys.map(key => state.sources[key].syncedAt).filter((time): time is string => time !== null).sort();
+  if (synced.length === 0) return '';
+  const refreshing = keys.some(key => state.sources[key].state === 'loading');
+  const stale = Date.now() - Date.parse(synced[0]) > STALE_AFTER_MS;
+  return `
+    <span class="${stale ? 'stale' : ''}" title="${stale ? 'This data may be out of date' : ''}">
+      Synced ${formatDate(synced[0])} UTC${refreshing ? ' · refreshing...' : ''}
+    </span>
+  `;
+}
+
+export function mountSection<S extends SectionSources>(
+  container: HTMLElement,
+  store: Store<AppState>,
+  sources: S,
+  mount: (body: HTMLElement, store: Store<AppState>, data: SectionData<S>) => () => void
+): () => void {
+  const { needs, uses = [], derived = [] } = sources;
+  const keys = [...needs, ...uses];
+  // Checks the needed and derived fields; the extra fields of a source arrive with it
+  const data: SectionData<S> = state => loadedData(state, [...needs, ...derived]) as LoadedData<SectionFields<S>>;
+
+  container.innerHTML = `
+    <div class="section-status"></div>
+    <div class="section-body"></div>
+    <div class="section-synced"></div>
+  `;
+  const status = container.querySelector<HTMLElement>('.section-status')!;
+  const body = container.querySelector<HTMLElement>('.section-body')!;
+  const synced = container.querySelector<HTMLElement>('.section-synced')!;
+  let unmount: (() => void) | null = null;
+
+  // Staleness grows without any state change
+  const timer = window.setInterval(() => {
+    synced.innerHTML = syncedHtml(store.get(), keys);
+  }, 60 * 1000);
+
+  status.addEventListener('click', (event) => {
+    const button = (event.target as HTMLElement).closest<HTMLButtonElement>('[data-retry]');
+    if (button) retrySource(store, button.dataset.retry as SourceKey);
+  });
+
+  const stop = watch(store, [
+    ...keys.map(key => (state: AppState) => state.sources[key]),
+    ...derived.map(key => (state: AppState) => state.data[key])
+  ], state => {
+    status.innerHTML = bannersHtml(state, keys);
+    synced.innerHTML = syncedHtml(state, keys);
+
+    if (unmount) return;
+    if (hasData(state, [...needs, ...derived])) {
+      body.innerHTML = '';
+      unmount = mount(body, store, data);
+    } else if (hasData(state, needs) || needs.some(key => state.sources[key].state === 'loading')) {
+      body.innerHTML = skeletonHtml(state, needs);
+    } else {
+      body.innerHTML = '';
+    }
+  });
+
+  return () => {
+    stop();
+    window.clearInterval(timer);
+    unmount?.();
+  };
+}
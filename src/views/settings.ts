@@ -0,0 +1,203 @@
+import { explorerUrl, isBakerAddress } from '../config';
+import { isLive, notificationsEnabled, notificationsSupported, retrySource, setCompareBakers, startLiveMode, stopLiveMode, toggleNotifications } from '../app';
+import { SOURCE_KEYS, SOURCE_LABELS, watch } from '../state';
+import type { AppState, SourceKey, SourceStatus, Store } from '../state';
+import { formatDate, formatNumber } from './format';
+
+// Settings page: the active configuration, compared bakers, live mode and notifications,
+// and the load state of every data source, each of which can be reloaded on its own.
+// Works before the data has finished loading.
+
+const SOURCE_STATE_LABELS: Record<SourceStatus['state'], string> = {
+  loading: 'Loading',
+  ready: 'Loaded',
+  error: 'Failed'
+};
+
+function sourceRowHtml(key: SourceKey, source: SourceStatus): string {
+  const progress = source.progress
+    ? `${formatNumber(source.progress.records)} records (${formatNumber(source.progress.pages)} ${source.progress.pages === 1 ? 'page' : 'pages'})`
+    : '—';
+  return `
+    <tr>
+      <td>${SOURCE_LABELS[key]}</td>
+      <td><span class="source-state ${source.state}">${SOURCE_STATE_LABELS[source.state]}</span></td>
+      <td>${source.error ?? progress}</td>
+      <td>${formatDate(source.syncedAt)}</td>
+      <td class="remove">${source.state === 'loading' ? '' : `<button class="btn-secondary btn-small" data-retry="${key}">${source.state === 'error' ? 'Retry' : 'Reload'}</button>`}</td>
+    </tr>
+  `;
+}
+
+export function mountSettings(container: HTMLElement, store: Store<AppState>): () => void {
+  const { config, fixtureMode } = store.get();
+  const link = (address: string) => `<a href="${explorerUrl(config, address)}" target="_blank">${address}</a>`;
+
+  const compareRows = config.compareBakers.map(baker => `
+    <tr>
+      <td class="address">${link(baker)}</td>
+      <td class="remove"><button class="btn-secondary btn-small" data-remove-baker="${baker}">Remove</button></td>
+    </tr>
+  `).join('');
+
+  const poolRows = config.dexPools.map(pool => `
+    <tr>
+      <td>${pool.name}</td>
+      <td class="address">${link(pool.address)}</td>
+    </tr>
+  `).join('');
+
+  const ruleRows = config.alertRules.map(rule => `
+    <tr>
+      <td>${rule.id}</td>
+      <td>${rule.type}</td>
+      <td>${rule.severity ?? 'warning'}</td>
+    </tr>
+  `).join('');
+
+  container.innerHTML = `
+    <div class="settings-view">
+      <a href="#/" class="back-link">← Overview</a>
+      <h2 class="wallet-title">Settings</h2>
+
+      <section>
+        <h3>Configuration</h3>
+        <div class="table-container">
+          <table class="leaderboard-table settings-table">
+            <tbody>
+              <tr><th>Network</th><td>${config.network}</td></tr>
+              <tr><th>TzKT API</th><td><a href="${config.tzktApiBase}" target="_blank">${config.tzktApiBase}</a></td></tr>
+              <tr><th>Baker</th><td class="address">${link(config.baker)}</td></tr>
+              <tr><th>Contract</th><td class="address">${link(config.contract)}</td></tr>
+              <tr><th>Token ID</th><td>${config.tokenId}</td></tr>
+              <tr><th>Data</th><td>${fixtureMode?.kind === 'replay' ? `Replaying fixtures from ${fixtureMode.url}` : fixtureMode?.kind === 'record' ? 'Recording TzKT responses' : 'Live TzKT API'}</td></tr>
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      <section>
+        <h3>Compared Bakers</h3>
+        <div class="table-container">
+          <table class="leaderboard-table settings-table">
+            <tbody>
+              ${compareRows || '<tr><td colspan="2" class="empty">No bakers compared</td></tr>'}
+            </tbody>
+          </table>
+        </div>
+        <form id="settings-add-baker" class="leaderboard-controls">
+          <input class="text-input" placeholder="Add baker to compare (tz...)" spellcheck="false" />
+          <button type="submit" class="btn-secondary">Compare</button>
+        </form>
+      </section>
+
+      <section>
+        <h3>Live Updates &amp; Notifications</h3>
+        <div class="leaderboard-controls">
+          ${fixtureMode ? '<span class="section-hint">Live mode is off while using fixtures</span>' : '<button data-toggle="live" class="btn-secondary"></button>'}
+          ${notificationsSupported() ? '<button data-toggle="notifications" class="btn-secondary"></button>' : '<span class="section-hint">This browser does not support notifications</span>'}
+        </div>
+      </section>
+
+      <section>
+        <h3>Alert Rules</h3>
+        <div class="table-container">
+          <table class="leaderboard-table settings-table">
+            <thead>
+              <tr>
+                <th>Rule</th>
+                <th>Type</th>
+                <th>Severity</th>
+              </tr>
+            </thead>
+            <tbody>
+              ${ruleRows || '<tr><td colspan="3" class="empty">No alert rules</td></tr>'}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      <section>
+        <h3>DEX Pools</h3>
+        <div class="table-container">
+          <table class="leaderboard-table settings-table">
+            <tbody>
+              ${poolRows || '<tr><td colspan="2" class="empty">No DEX pools configured</td></tr>'}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      <section>
+        <h3>Data Sources</h3>
+        <div class="table-container">
+          <table class="leaderboard-table settings-table">
+            <thead>
+              <tr>
+                <th>Source</th>
+                <th>State</th>
+                <th>Progress</th>
+                <th>Last Synced (UTC)</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody id="settings-sources"></tbody>
+          </table>
+        </div>
+      </section>
+    </div>
+  `;
+
+  const sources = container.querySelector<HTMLElement>('#settings-sources')!;
+  const liveButton = container.querySelector<HTMLButtonElement>('[data-toggle="live"]');
+  const notificationsButton = container.querySelector<HTMLButtonElement>('[data-toggle="notifications"]');
+
+  const renderNotifications = () => {
+    if (notificationsButton) notificationsButton.textContent = notificationsEnabled() ? 'Disable notifications' : 'Enable notifications';
+  };
+  renderNotifications();
+
+  container.querySelector('#settings-add-baker')!.addEventListener('submit', (event) => {
+    event.preventDefault();
+    const input = (event.target as HTMLFormElement).querySelector('input')!;
+    const address = input.value.trim();
+    if (!isBakerAddress(address)) {
+      input.setCustomValidity('Not a valid baker address');
+      input.reportValidity();
+      return;
+    }
+    setCompareBakers([...config.compareBakers, address]);
+  });
+
+  container.querySelectorAll<HTMLButtonElement>('[data-remove-baker]').forEach(button => {
+    button.addEventListener('click', () => {
+      setCompareBakers(config.compareBakers.filter(baker => baker !== button.dataset.removeBaker));
+    });
+  });
+
+  liveButton?.addEventListener('click', () => {
+    if (isLive()) stopLiveMode(store);
+    else startLiveMode(store);
+  });
+
+  sources.addEventListener('click', (event) => {
+    const button = (event.target as HTMLElement).closest<HTMLButtonElement>('[data-retry]');
+    if (button) retrySource(store, button.dataset.retry as SourceKey);
+  });
+
+  notificationsButton?.addEventListener('click', async () => {
+    await toggleNotifications();
+    renderNotifications();
+  });
+
+  const stops = [
+    watch(store, [state => state.live], state => {
+      if (liveButton) liveButton.textContent = state.live === 'closed' ? 'Start live updates' : `Stop live updates (${state.live})`;
+    }),
+    watch(store, [state => state.sources], state => {
+      sources.innerHTML = SOURCE_KEYS.map(key => sourceRowHtml(key, state.sources[key])).join('');
+    })
+  ];
+
+  return () => stops.forEach(stop => stop());
+}
@@ -0,0 +1,243 @@
+import type { StakingOperation } from '../api';
+import { explorerUrl } from '../config';
+import type { DashboardConfig } from '../config';
+import { createBalanceChart } from '../chart';
+import { formatAmount, formatTez, formatSignedTez, formatStxtz } from '../amounts';
+import { netTransferred } from '../leaderboard';
+import { buildWalletDetail } from '../wallet';
+import type { WalletDetail } from '../wallet';
+import { isAbortError } from '../http';
+import { loadWalletTransfers } from '../app';
+import { watch } from '../state';
+import type { AppState, Store } from '../state';
+import { ESTIMATE_MARK, WITHDRAWAL_STATE_LABELS, formatDate, shortenAddress } from './format';
+import { EXPORT_SOURCES, mountExportPanel } from './exportPanel';
+import { mountSection } from './section';
+import type { SectionData, SectionSources } from './section';
+import type { Chart } from 'chart.js';
+
+// Wallet page: position, yield, balance history, open requests and timeline of one wallet.
+// Its stXTZ transfers are fetched on the first visit and again after live mode drops them.
+
+const TIMELINE_LABELS: Record<StakingOperation['type'], string> = {
+  stake: 'Deposit',
+  unstake: 'Withdrawal Request',
+  finalize: 'Finalization'
+};
+
+const BACK_LINK = '<a href="#/" class="back-link">← Overview</a>';
+
+function walletDetailHtml(config: DashboardConfig, detail: WalletDetail, alias?: string): string {
+  const { stats, yield: walletYield } = detail;
+
+  const requestRows = detail.openRequests.map(request => `
+    <tr>
+      <td>${formatDate(request.request.timestamp)}</td>
+      <td class="withdrawn">${formatTez(request.amount)}${request.request.exact ? '' : ESTIMATE_MARK}</td>
+      <td>${request.unlockCycle ?? '—'}</td>
+      <td>${formatDate(request.unlockTime)}</td>
+      <td><span class="queue-state ${request.state}">${WITHDRAWAL_STATE_LABELS[request.state]}</span></td>
+    </tr>
+  `).join('');
+
+  const timelineRows = detail.timeline.map(op => `
+    <tr>
+      <td>${formatDate(op.timestamp)}</td>
+      <td>${TIMELINE_LABELS[op.type]}</td>
+      <td class="${op.type === 'stake' ? 'deposited' : 'withdrawn'}">${formatTez(op.amount)}${op.exact ? '' : ESTIMATE_MARK}</td>
+      <td>${op.stxtzAmount !== undefined ? formatStxtz(op.stxtzAmount, 6) : '—'}</td>
+      <td class="address">${op.hash ? `<a href="${explorerUrl(config, op.hash)}" target="_blank">${shortenAddress(op.hash)}</a>` : '—'}</td>
+    </tr>
+  `).join('');
+
+  return `
+    ${BACK_LINK}
+    <h2 class="wallet-title">
+      ${alias ?? shortenAddress(detail.address)}
+      <a href="${explorerUrl(config, detail.address)}" target="_blank" class="external-link" title="Open in explorer">↗</a>
+    </h2>
+    <p class="wallet-address">${detail.address}</p>
+
+    <div class="stat-cards">
+      <div class="stat-card">
+        <span class="stat-label">stXTZ Balance</span>
+        <span class="stat-value">${formatAmount(detail.balance)}</span>
+        <span class="stat-count">${formatTez(walletYield.currentValue)} at current rate</span>
+      </div>
+      <div class="stat-card">
+        <span class="stat-label">Cost Basis</span>
+        <span class="stat-value">${formatTez(walletYield.costBasis)}</span>
+        <span class="stat-count">average cost of stXTZ held</span>
+      </div>
+      <div class="stat-card stake">
+        <span class="stat-label">Realized Yield</span>
+        <span class="stat-value">${formatSignedTez(walletYield.realized)}</span>
+        <span class="stat-count">on stXTZ sent or redeemed</span>
+      </div>
+      <div class="stat-card stake">
+        <span class="stat-label">Unrealized Yield</span>
+        <span class="stat-value">${formatSignedTez(walletYield.unrealized)}</span>
+        <span class="stat-count">on stXTZ still held</span>
+      </div>
+      <div class="stat-card">
+        <span class="stat-label">Deposited / Withdrawn</span>
+        <span class="stat-value">${formatTez(stats?.totalDeposited ?? 0n)}</span>
+        <span class="stat-count">${formatTez(stats?.totalWithdrawn ?? 0n)} withdrawn</span>
+      </div>
+      <div class="stat-card">
+        <span class="stat-label">Transfers / DEX</span>
+        <span class="stat-value">${formatSignedTez(stats ? netTransferred(stats) : 0n)}</span>
+        <span class="stat-count">
+          ${formatTez((stats?.transferredIn ?? 0n) - (stats?.transferredOut ?? 0n))} peer,
+          ${formatTez((stats?.swappedIn ?? 0n) - (stats?.swappedOut ?? 0n))} swaps,
+          ${formatTez((stats?.liquidityRemoved ?? 0n) - (stats?.liquidityAdded ?? 0n))} liquidity
+        </span>
+      </div>
+    </div>
+
+    <section class="chart-section">
+      <h3>stXTZ Balance History</h3>
+      ${detail.balanceHistory.length > 0
+        ? '<div class="chart-container"><canvas id="walletBalanceChart"></canvas></div>'
+        : '<p class="empty">No stXTZ transfers for this wallet.</p>'}
+    </section>
+
+    <section>
+      <h3>Open Withdrawal Requests</h3>
+      <div class="table-container">
+        <table class="leaderboard-table">
+          <thead>
+            <tr>
+              <th>Requested</th>
+              <th>Amount</th>
+              <th>Unlock Cycle</th>
+              <th>Unlocks</th>
+              <th>State</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${requestRows || '<tr><td colspan="5" class="empty">No open requests</td></tr>'}
+          </tbody>
+        </table>
+      </div>
+    </section>
+
+    <section>
+      <h3>Activity</h3>
+      <div class="table-container">
+        <table class="leaderboard-table">
+          <thead>
+            <tr>
+              <th>Time</th>
+              <th>Action</th>
+              <th>XTZ</th>
+              <th>stXTZ</th>
+              <th>Operation</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${timelineRows || '<tr><td colspan="5" class="empty">No deposits or withdrawals</td></tr>'}
+          </tbody>
+        </table>
+      </div>
+    </section>
+
+    <section id="wallet-export" class="export-panel"></section>
+  `;
+}
+
+// Holders only give the wallet alias; if cycles fail the queue is built without unlock times
+const WALLET_SOURCES = {
+  needs: ['stxtzOps', 'bakeryOps', 'timing'],
+  uses: ['cycles', 'holders'],
+  derived: ['withdrawalQueue']
+} satisfies SectionSources;
+
+function mountWalletDetail(container: HTMLElement, store: Store<AppState>, loaded: SectionData<typeof WALLET_SOURCES>, address: string): () => void {
+  const { config } = store.get();
+  container.innerHTML = '<div class="wallet-view"></div>';
+  const view = container.querySelector<HTMLElement>('.wallet-view')!;
+  const controller = new AbortController();
+  let chart: Chart | null = null;
+  let unmountExport: (() => void) | null = null;
+  let loading = false;
+  let loadError: string | null = null;
+
+  // (Re-)fetch the transfers; the watch below renders once they are in the store
+  const load = async () => {
+    loading = true;
+    try {
+      await loadWalletTransfers(store, address, controller.signal);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.warn(`Failed to load transfers for ${address}:`, error);
+      loadError = error instanceof Error ? error.message : 'Unknown error';
+      render(store.get());
+    } finally {
+      loading = false;
+    }
+  };
+
+  const render = (state: AppState) => {
+    const data = loaded(state);
+    const transfers = state.walletTransfers.get(address);
+    chart?.destroy();
+    chart = null;
+    unmountExport?.();
+    unmountExport = null;
+
+    if (loadError) {
+      view.innerHTML = `
+        ${BACK_LINK}
+        <div class="error">
+          <h2>Failed to load wallet</h2>
+          <p>${loadError}</p>
+          <button data-retry-wallet>Retry</button>
+        </div>
+      `;
+      return;
+    }
+    if (!transfers) {
+      view.innerHTML = `
+        ${BACK_LINK}
+        <div class="loading"><div class="spinner"></div><p>Loading wallet ${shortenAddress(address)}...</p></div>
+      `;
+      if (!loading) load();
+      return;
+    }
+
+    // Stats fill in once computed; the rest of the page does not wait for them
+    const detail = buildWalletDetail(address, data.stxtzOps, state.data.walletStats ?? [], transfers, data.rates, data.withdrawalQueue);
+    // Without the holder list the page falls back to the short address
+    const alias = state.data.holders?.holders.find(holder => holder.account.address === address)?.account.alias;
+    view.innerHTML = walletDetailHtml(config, detail, alias);
+    if (detail.balanceHistory.length > 0) chart = createBalanceChart('walletBalanceChart', detail.balanceHistory);
+    unmountExport = mountSection(view.querySelector<HTMLElement>('#wallet-export')!, store, EXPORT_SOURCES, mountExportPanel);
+  };
+
+  view.addEventListener('click', (event) => {
+    if (!(event.target as HTMLElement).closest('[data-retry-wallet]')) return;
+    loadError = null;
+    render(store.get());
+  });
+
+  const stop = watch(store, [
+    state => state.walletTransfers.get(address),
+    state => loaded(state).stxtzOps,
+    state => loaded(state).rates,
+    state => state.data.holders,
+    state => state.data.walletStats,
+    state => loaded(state).withdrawalQueue
+  ], render);
+
+  return () => {
+    stop();
+    controller.abort();
+    chart?.destroy();
+    unmountExport?.();
+  };
+}
+
+export function mountWallet(container: HTMLElement, store: Store<AppState>, address: string): () => void {
+  return mountSection(container, store, WALLET_SOURCES, (body, _store, loaded) => mountWalletDetail(body, store, loaded, address));
+}
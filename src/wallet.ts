@@ -0,0 +1,111 @@
+import type { StakingOperation, TokenTransfer, WalletStats } from './api';
+import { minMutez, mulRate, parseMutez } from './amounts';
+import { rateAt } from './rates';
+import type { RateHistory } from './rates';
+import type { WithdrawalQueue, WithdrawalRequest } from './withdrawals';
+
+// Everything the wallet detail page shows for one address.
+//
+// Yield uses average cost: every stXTZ received is booked at its XTZ redemption value
+// at that level. Sending or burning stXTZ realizes (value at that level - average cost);
+// what is still held is unrealized against the current rate.
+
+export interface BalancePoint {
+  level: number;
+  timestamp: string;
+  balance: bigint; // stXTZ, in mutez
+}
+
+export interface WalletYield {
+  costBasis: bigint;    // mutez paid for the stXTZ still held
+  currentValue: bigint; // stXTZ held x current rate
+  realized: bigint;     // mutez gained on stXTZ already sent or redeemed
+  unrealized: bigint;   // currentValue - costBasis
+}
+
+export interface WalletDetail {
+  address: string;
+  stats: WalletStats | null;
+  timeline: StakingOperation[];        // deposits, requests and finalizations, newest first
+  balanceHistory: BalancePoint[];
+  balance: bigint;                     // current stXTZ balance
+  yield: WalletYield;
+  openRequests: WithdrawalRequest[];
+}
+
+// Signed stXTZ change of a transfer from the wallet's point of view
+function transferDelta(transfer: TokenTransfer, address: string): bigint {
+  const amount = parseMutez(transfer.amount);
+  if (transfer.to?.address === address && transfer.from?.address !== address) return amount;
+  if (transfer.from?.address === address && transfer.to?.address !== address) return -amount;
+  return 0n;
+}
+
+// Running stXTZ balance after every transfer
+export function buildBalanceHistory(transfers: TokenTransfer[], address: string): BalancePoint[] {
+  let balance = 0n;
+  return [...transfers]
+    .sort((a, b) => a.id - b.id)
+    .map(transfer => {
+      balance += transferDelta(transfer, address);
+      return { level: transfer.level, timestamp: transfer.timestamp, balance };
+    });
+}
+
+// Average-cost realized/unrealized yield from the wallet's stXTZ transfers
+export function calculateWalletYield(transfers: TokenTransfer[], address: string, rates: RateHistory, currentRate: number): WalletYield {
+  let held = 0n;
+  let costBasis = 0n;
+  let realized = 0n;
+
+  for (const transfer of [...transfers].sort((a, b) => a.id - b.id)) {
+    const delta = transferDelta(transfer, address);
+    if (delta === 0n) continue;
+
+    if (delta > 0n) {
+      held += delta;
+      costBasis += mulRate(delta, rateAt(rates, transfer.level).rate);
+    } else {
+      const value = mulRate(-delta, rateAt(rates, transfer.level).rate);
+      const sold = minMutez(-delta, held);
+      // Cost of the sold share at the average cost, without rounding the average itself
+      const soldCost = held > 0n ? costBasis * sold / held : 0n;
+      realized += value - soldCost;
+      costBasis -= soldCost;
+      held -= sold;
+    }
+  }
+
+  const currentValue = mulRate(held, currentRate);
+  return {
+    costBasis,
+    currentValue,
+    realized,
+    unrealized: currentValue - costBasis
+  };
+}
+
+// Assemble the wallet page model from the dashboard's data
+export function buildWalletDetail(
+  address: string,
+  stxtzOps: StakingOperation[],
+  walletStats: WalletStats[],
+  transfers: TokenTransfer[],
+  rates: RateHistory,
+  queue: WithdrawalQueue
+): WalletDetail {
+  const balanceHistory = buildBalanceHistory(transfers, address);
+  const currentRate = rates.length > 0 ? rates[rates.length - 1].rate : 1;
+
+  return {
+    address,
+    stats: walletStats.find(wallet => wallet.address === address) ?? null,
+    timeline: stxtzOps
+      .filter(op => op.sender === address)
+      .sort((a, b) => b.level - a.level),
+    balanceHistory,
+    balance: balanceHistory.length > 0 ? balanceHistory[balanceHistory.length - 1].balance : 0n,
+    yield: calculateWalletYield(transfers, address, rates, currentRate),
+    openRequests: queue.open.filter(request => request.sender === address)
+  };
+}
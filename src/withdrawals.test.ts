@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import type { StakingOperation } from './api';
+import type { CycleInfo, ProtocolTiming } from './cycles';
+import { buildWithdrawalQueue } from './withdrawals';
+
+const WALLET = 'tz1ATbQgdM9mwZgikp4WzxrxktcSSSS7XhS4';
+
+// Cycles of 1000 levels, one per day
+const CYCLES: CycleInfo[] = Array.from({ length: 20 }, (_, index) => ({
+  index,
+  firstLevel: index * 1000 + 1,
+  lastLevel: (index + 1) * 1000,
+  startTime: new Date(Date.UTC(2025, 0, 1 + index)).toISOString(),
+  endTime: new Date(Date.UTC(2025, 0, 1 + index, 23, 59)).toISOString()
+}));
+
+const TIMING: ProtocolTiming = { currentLevel: 15_500, currentCycle: 15, consensusRightsDelay: 2, unstakeDelayCycles: 4 };
+
+function op(source: StakingOperation['source'], type: StakingOperation['type'], level: number, tez: number): StakingOperation {
+  return {
+    level,
+    timestamp: CYCLES[Math.floor((level - 1) / 1000)].startTime,
+    type,
+    amount: BigInt(tez) * 1_000_000n,
+    exact: true,
+    source,
+    ...(source === 'stxtz' ? { sender: WALLET } : { baker: 'tz1MASi45ub7Qe4ZE36UT5G6cU4ud8Fhhe4d' })
+  };
+}
+
+describe('buildWithdrawalQueue', () => {
+  it('matches a finalization to the request it pays out', () => {
+    const queue = buildWithdrawalQueue(
+      [op('stxtz', 'unstake', 1500, 100), op('stxtz', 'unstake', 2500, 50), op('stxtz', 'finalize', 7500, 100)],
+      [op('bakery', 'unstake', 1500, 100), op('bakery', 'unstake', 2500, 50)],
+      CYCLES,
+      TIMING
+    );
+    expect(queue.requests.map(request => request.state)).toEqual(['finalized', 'finalizable']);
+    expect(queue.totalPending).toBe(50_000_000n);
+    expect(queue.unmatchedFinalizations).toEqual([]);
+  });
+
+  it('leaves the oldest request open when a smaller finalization cannot pay it', () => {
+    const finalization = op('stxtz', 'finalize', 7500, 10);
+    const queue = buildWithdrawalQueue(
+      [op('stxtz', 'unstake', 1500, 100), op('stxtz', 'unstake', 2500, 10), finalization],
+      [op('bakery', 'unstake', 1500, 100), op('bakery', 'unstake', 2500, 10)],
+      CYCLES,
+      TIMING
+    );
+    expect(queue.requests.map(request => request.state)).toEqual(['finalizable', 'finalizable']);
+    expect(queue.totalPending).toBe(110_000_000n);
+    expect(queue.unmatchedFinalizations).toEqual([finalization]);
+  });
+
+  it('does not let a finalization claim requests that are still locked', () => {
+    const finalization = op('stxtz', 'finalize', 3500, 100);
+    const queue = buildWithdrawalQueue(
+      [op('stxtz', 'unstake', 1500, 100), finalization],
+      [op('bakery', 'unstake', 1500, 100)],
+      CYCLES,
+      TIMING
+    );
+    // Requested in cycle 1, unlocked in cycle 5, finalized in cycle 3
+    expect(queue.requests[0].state).toBe('finalizable');
+    expect(queue.unmatchedFinalizations).toEqual([finalization]);
+    expect(queue.liquidityByCycle).toEqual([{ cycle: 15, startTime: CYCLES[15].startTime, amount: 100_000_000n, requests: 1 }]);
+  });
+});
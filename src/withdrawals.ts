@@ -0,0 +1,212 @@
+import type { StakingOperation } from './api';
+import { sumMutez } from './amounts';
+import { cycleOfLevel, cycleByIndex } from './cycles';
+import type { CycleInfo, ProtocolTiming } from './cycles';
+
+// Withdrawal lifecycle: request_withdrawal -> (unstake delay) -> finalize_withdrawal.
+//
+// Each request is tied to the first bakery unstake at or after it (the contract unstakes
+// from the baker to fund withdrawals), which fixes the cycle its XTZ unlocks in. Finalizations
+// are matched to requests per sender, oldest unlocked request first.
+
+export type WithdrawalState = 'pending' | 'finalizable' | 'finalized';
+
+export interface WithdrawalRequest {
+  request: StakingOperation;
+  sender: string;
+  amount: bigint;          // mutez (exact or estimated, see request.exact)
+  requestCycle: number | null;
+  unlockCycle: number | null;
+  unlockTime: string | null; // start of the unlock cycle, if TzKT knows it
+  state: WithdrawalState;
+  finalization?: StakingOperation;
+}
+
+export interface LiquidityNeed {
+  cycle: number;
+  startTime: string | null;
+  amount: bigint;  // mutez that becomes claimable in this cycle
+  requests: number;
+}
+
+export interface WithdrawalQueue {
+  requests: WithdrawalRequest[];     // every request, oldest first
+  open: WithdrawalRequest[];         // not yet finalized, oldest first
+  totalPending: bigint;              // mutez requested but not finalized
+  totalFinalizable: bigint;          // mutez that could be claimed right now
+  liquidityByCycle: LiquidityNeed[]; // open requests grouped by unlock cycle
+  unmatchedFinalizations: StakingOperation[];
+}
+
+// Finalized amounts may differ slightly from the requested value (rounding, estimated rates),
+// so matching allows this many per mille on top
+const MATCH_TOLERANCE_PER_MILLE = 5n;
+
+// Amount plus the matching tolerance
+function withTolerance(amount: bigint): bigint {
+  return amount + amount * MATCH_TOLERANCE_PER_MILLE / 1000n;
+}
+
+// Level of the first bakery unstake at or after a request level (levels must be sorted)
+function firstUnstakeLevelAfter(bakeryUnstakeLevels: number[], level: number): number | null {
+  let low = 0;
+  let high = bakeryUnstakeLevels.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (bakeryUnstakeLevels[mid] < level) low = mid + 1;
+    else high = mid;
+  }
+  return bakeryUnstakeLevels[low] ?? null;
+}
+
+// Build the withdrawal lifecycle from stXTZ and bakery operations
+export function buildWithdrawalQueue(
+  stxtzOps: StakingOperation[],
+  bakeryOps: StakingOperation[],
+  cycles: CycleInfo[],
+  timing: ProtocolTiming
+): WithdrawalQueue {
+  const byLevel = (a: StakingOperation, b: StakingOperation) => a.level - b.level;
+  const bakeryUnstakeLevels = bakeryOps
+    .filter(op => op.type === 'unstake')
+    .map(op => op.level)
+    .sort((a, b) => a - b);
+
+  // Create a request entry for every request_withdrawal
+  const requests: WithdrawalRequest[] = stxtzOps
+    .filter(op => op.type === 'unstake' && op.sender)
+    .sort(byLevel)
+    .map(op => {
+      const requestCycle = cycleOfLevel(cycles, op.level)?.index ?? null;
+      // Funds unlock a fixed delay after the bakery unstake that covers the request
+      const unstakeLevel = firstUnstakeLevelAfter(bakeryUnstakeLevels, op.level) ?? op.level;
+      const unstakeCycle = cycleOfLevel(cycles, unstakeLevel)?.index ?? requestCycle;
+      const unlockCycle = unstakeCycle === null ? null : unstakeCycle + timing.unstakeDelayCycles;
+      const unlock = unlockCycle === null ? null : cycleByIndex(cycles, unlockCycle);
+
+      return {
+        request: op,
+        sender: op.sender!,
+        amount: op.amount,
+        requestCycle,
+        unlockCycle,
+        unlockTime: unlock?.startTime ?? null,
+        state: 'pending' as WithdrawalState
+      };
+    });
+
+  // Group open requests per sender so finalizations can consume them in order
+  const openBySender = new Map<string, WithdrawalRequest[]>();
+  for (const request of requests) {
+    if (!openBySender.has(request.sender)) openBySender.set(request.sender, []);
+    openBySender.get(request.sender)!.push(request);
+  }
+
+  const unmatchedFinalizations: StakingOperation[] = [];
+  const finalizations = stxtzOps.filter(op => op.type === 'finalize' && op.sender).sort(byLevel);
+
+  for (const finalization of finalizations) {
+    const open = openBySender.get(finalization.sender!) ?? [];
+    const finalizeCycle = cycleOfLevel(cycles, finalization.level)?.index ?? null;
+
+    // Only requests unlocked by the time of this finalization can be claimed by it
+    const eligible = open.filter(request =>
+      request.request.level <= finalization.level &&
+      (finalizeCycle === null || request.unlockCycle === null || request.unlockCycle <= finalizeCycle)
+    );
+
+    // Consume the oldest requests while their sum fits the finalized amount; a finalization
+    // smaller than the oldest one matches nothing
+    const consumed: WithdrawalRequest[] = [];
+    let remaining = withTolerance(finalization.amount);
+    for (const request of eligible) {
+      if (request.amount > remaining) break;
+      consumed.push(request);
+      remaining -= request.amount;
+      if (remaining <= 0n) break;
+    }
+
+    if (consumed.length === 0) {
+      unmatchedFinalizations.push(finalization);
+      continue;
+    }
+
+    for (const request of consumed) {
+      request.state = 'finalized';
+      request.finalization = finalization;
+      open.splice(open.indexOf(request), 1);
+    }
+  }
+
+  // Everything left open is finalizable once its unlock cycle has started
+  const open = requests.filter(request => request.state !== 'finalized');
+  for (const request of open) {
+    request.state = request.unlockCycle !== null && request.unlockCycle <= timing.currentCycle
+      ? 'finalizable'
+      : 'pending';
+  }
+
+  // Liquidity needed per cycle; already-finalizable requests count towards the current cycle
+  const needs = new Map<number, LiquidityNeed>();
+  for (const request of open) {
+    const cycle = Math.max(request.unlockCycle ?? timing.currentCycle, timing.currentCycle);
+    if (!needs.has(cycle)) {
+      const info = cycleByIndex(cycles, cycle);
+      needs.set(cycle, { cycle, startTime: info?.startTime ?? null, amount: 0n, requests: 0 });
+    }
+    const need = needs.get(cycle)!;
+    need.amount += request.amount;
+    need.requests++;
+  }
+
+  return {
+    requests,
+    open,
+    totalPending: sumMutez(open.map(request => request.amount)),
+    totalFinalizable: sumMutez(open
+      .filter(request => request.state === 'finalizable')
+      .map(request => request.amount)),
+    liquidityByCycle: Array.from(needs.values()).sort((a, b) => a.cycle - b.cycle),
+    unmatchedFinalizations
+  };
+}
+
+// A bakery unstake and the finalize that paid it out
+export interface FinalizationGap {
+  unstake: StakingOperation;
+  finalize: StakingOperation;
+  cycles: number; // finalize cycle - unstake cycle
+}
+
+// Match bakery finalizations to earlier unstakes (oldest first, by amount) to measure how many
+// cycles funds actually waited. Operations need their cycle assigned.
+export function bakeryFinalizationGaps(bakeryOps: StakingOperation[]): FinalizationGap[] {
+  const sorted = bakeryOps
+    .filter(op => op.cycle !== undefined)
+    .sort((a, b) => a.level - b.level);
+  const pending: { op: StakingOperation; remaining: bigint }[] = [];
+  const gaps: FinalizationGap[] = [];
+
+  for (const op of sorted) {
+    if (op.type === 'unstake') {
+      pending.push({ op, remaining: op.amount });
+      continue;
+    }
+    if (op.type !== 'finalize') continue;
+
+    // A finalize pays out every unlocked unstake, so it consumes the oldest ones first
+    let available = withTolerance(op.amount);
+    while (pending.length > 0 && available > 0n) {
+      const oldest = pending[0];
+      if (oldest.remaining > available) {
+        oldest.remaining -= available;
+        break;
+      }
+      available -= oldest.remaining;
+      pending.shift();
+      gaps.push({ unstake: oldest.op, finalize: op, cycles: op.cycle! - oldest.op.cycle! });
+    }
+  }
+
+  return gaps;
+}